@@ -0,0 +1,137 @@
+/**
+ * Sockeon Acknowledgements
+ *
+ * Tracks request/response pairs for emitWithAck():
+ * - Correlation id generation
+ * - Reply matching
+ * - Timeouts
+ * - Bulk rejection on disconnect
+ */
+
+import type { TimerHandle } from "./types";
+
+/**
+ * Pending acknowledgement entry
+ */
+interface PendingAck {
+	sent: boolean;
+	timer: TimerHandle;
+	resolve: (data: unknown) => void;
+	reject: (error: Error) => void;
+}
+
+/**
+ * Registry of acknowledgements awaiting a server reply
+ */
+export class AckRegistry {
+	private pending: Map<string, PendingAck> = new Map();
+	private counter: number = 0;
+	private prefix: string = Math.random().toString(36).slice(2, 8);
+
+	/**
+	 * Generate a new correlation id
+	 */
+	nextId(): string {
+		this.counter++;
+		return `${this.prefix}-${this.counter}`;
+	}
+
+	/**
+	 * Register a pending acknowledgement
+	 * The returned promise settles when the reply arrives, on timeout,
+	 * or when the entry is rejected explicitly.
+	 */
+	register<T>(id: string, event: string, timeout: number): Promise<T> {
+		return new Promise<T>((resolve, reject) => {
+			const timer = setTimeout(() => {
+				this.reject(
+					id,
+					new Error(`Ack timeout: no reply to '${event}' within ${timeout}ms`),
+				);
+			}, timeout);
+
+			this.pending.set(id, {
+				sent: false,
+				timer,
+				resolve: resolve as (data: unknown) => void,
+				reject,
+			});
+		});
+	}
+
+	/**
+	 * Check if an id is awaiting a reply
+	 */
+	has(id: string): boolean {
+		return this.pending.has(id);
+	}
+
+	/**
+	 * Mark an acknowledgement as written to the socket
+	 */
+	markSent(id: string): void {
+		const entry = this.pending.get(id);
+		if (entry) {
+			entry.sent = true;
+		}
+	}
+
+	/**
+	 * Resolve a pending acknowledgement with the server reply
+	 */
+	resolve(id: string, data: unknown): boolean {
+		const entry = this.take(id);
+		if (!entry) {
+			return false;
+		}
+
+		entry.resolve(data);
+		return true;
+	}
+
+	/**
+	 * Reject a pending acknowledgement
+	 */
+	reject(id: string, error: Error): boolean {
+		const entry = this.take(id);
+		if (!entry) {
+			return false;
+		}
+
+		entry.reject(error);
+		return true;
+	}
+
+	/**
+	 * Reject every acknowledgement whose message already went out
+	 * Messages still in the outbound queue keep waiting for their own timeout.
+	 */
+	rejectSent(error: Error): void {
+		for (const [id, entry] of Array.from(this.pending)) {
+			if (entry.sent) {
+				this.reject(id, error);
+			}
+		}
+	}
+
+	/**
+	 * Number of pending acknowledgements
+	 */
+	size(): number {
+		return this.pending.size;
+	}
+
+	/**
+	 * Remove an entry and clear its timer
+	 */
+	private take(id: string): PendingAck | undefined {
+		const entry = this.pending.get(id);
+		if (!entry) {
+			return undefined;
+		}
+
+		clearTimeout(entry.timer);
+		this.pending.delete(id);
+		return entry;
+	}
+}
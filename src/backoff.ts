@@ -0,0 +1,67 @@
+/**
+ * Sockeon Reconnect Backoff
+ *
+ * Computes delays between reconnection attempts:
+ * - Exponential backoff capped at maxDelay
+ * - Full, equal or decorrelated jitter (spreads out clients reconnecting at once)
+ * - Custom strategies via reconnect.backoff
+ */
+
+import type { ReconnectConfig } from "./types";
+
+/**
+ * Reconnect delay calculator
+ */
+export class Backoff {
+	private config: ReconnectConfig;
+	private previousDelay: number | null = null;
+
+	constructor(config: ReconnectConfig) {
+		this.config = config;
+	}
+
+	/**
+	 * Delay before the given attempt (starting at 1), or null to give up
+	 */
+	next(attempt: number, lastCloseCode: number | null): number | null {
+		const { backoff } = this.config;
+		const delay = backoff
+			? backoff(attempt, lastCloseCode)
+			: this.compute(attempt);
+
+		if (delay === null) {
+			return null;
+		}
+
+		this.previousDelay = Math.max(0, Math.round(delay));
+		return this.previousDelay;
+	}
+
+	/**
+	 * Forget the previous delay (after a successful connection)
+	 */
+	reset(): void {
+		this.previousDelay = null;
+	}
+
+	/**
+	 * Exponential backoff with the configured jitter
+	 */
+	private compute(attempt: number): number {
+		const { delay, maxDelay, factor, jitter } = this.config;
+		const base = Math.min(delay * factor ** (attempt - 1), maxDelay);
+
+		switch (jitter) {
+			case "full":
+				return Math.random() * base;
+			case "equal":
+				return base / 2 + (Math.random() * base) / 2;
+			case "decorrelated": {
+				const upper = (this.previousDelay ?? delay) * 3;
+				return Math.min(delay + Math.random() * (upper - delay), maxDelay);
+			}
+			default:
+				return base;
+		}
+	}
+}
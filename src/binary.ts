@@ -0,0 +1,174 @@
+/**
+ * Sockeon Binary Attachments
+ *
+ * Binary values inside event payloads travel as separate frames:
+ * - Sender replaces each binary value with a placeholder and sends the JSON
+ *   envelope ({ event, data, attachments: n }) followed by n binary frames
+ * - Receiver collects the frames and puts them back in place of the placeholders
+ */
+
+import type { BinaryData, MessageData, SockeonMessage } from "./types";
+
+const textEncoder = new TextEncoder();
+
+/**
+ * Placeholder left in the JSON envelope for each binary value
+ */
+interface AttachmentPlaceholder {
+	_placeholder: true;
+	num: number;
+}
+
+/**
+ * Check if a value is binary (ArrayBuffer, typed array/DataView, Blob)
+ */
+export function isBinary(value: unknown): value is BinaryData {
+	return (
+		value instanceof ArrayBuffer ||
+		ArrayBuffer.isView(value) ||
+		(typeof Blob !== "undefined" && value instanceof Blob)
+	);
+}
+
+/**
+ * Check if a payload contains binary values anywhere
+ */
+export function hasBinary(value: unknown): boolean {
+	if (isBinary(value)) {
+		return true;
+	}
+
+	if (Array.isArray(value)) {
+		return value.some(hasBinary);
+	}
+
+	if (isPlainObject(value)) {
+		return Object.values(value).some(hasBinary);
+	}
+
+	return false;
+}
+
+/**
+ * Replace binary values with placeholders
+ * Returns the envelope message and the binary frames to send after it.
+ */
+export function extractAttachments(message: SockeonMessage): {
+	message: SockeonMessage;
+	attachments: BinaryData[];
+} {
+	const attachments: BinaryData[] = [];
+
+	const replace = (value: unknown): unknown => {
+		if (isBinary(value)) {
+			const placeholder: AttachmentPlaceholder = {
+				_placeholder: true,
+				num: attachments.length,
+			};
+			attachments.push(value);
+			return placeholder;
+		}
+
+		if (Array.isArray(value)) {
+			return value.map(replace);
+		}
+
+		if (isPlainObject(value)) {
+			const result: Record<string, unknown> = {};
+			for (const [key, item] of Object.entries(value)) {
+				result[key] = replace(item);
+			}
+			return result;
+		}
+
+		return value;
+	};
+
+	const data = replace(message.data) as MessageData;
+	if (attachments.length === 0) {
+		return { message, attachments };
+	}
+
+	return {
+		message: { ...message, data, attachments: attachments.length },
+		attachments,
+	};
+}
+
+/**
+ * Put received binary frames back in place of their placeholders
+ */
+export function restoreAttachments(
+	message: SockeonMessage,
+	buffers: Uint8Array[],
+): SockeonMessage {
+	const replace = (value: unknown): unknown => {
+		if (isPlaceholder(value)) {
+			return buffers[value.num];
+		}
+
+		if (Array.isArray(value)) {
+			return value.map(replace);
+		}
+
+		if (isPlainObject(value)) {
+			const result: Record<string, unknown> = {};
+			for (const [key, item] of Object.entries(value)) {
+				result[key] = replace(item);
+			}
+			return result;
+		}
+
+		return value;
+	};
+
+	const { attachments: _attachments, ...rest } = message;
+	return { ...rest, data: replace(message.data) as MessageData };
+}
+
+/**
+ * Normalize a received binary frame (ArrayBuffer, Node Buffer, ...) to Uint8Array
+ */
+export function toUint8Array(data: ArrayBuffer | ArrayBufferView): Uint8Array {
+	if (data instanceof ArrayBuffer) {
+		return new Uint8Array(data);
+	}
+
+	return new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+}
+
+/**
+ * Size of a frame in bytes (text frames are measured as UTF-8)
+ */
+export function byteLength(frame: string | BinaryData): number {
+	if (typeof frame === "string") {
+		return textEncoder.encode(frame).byteLength;
+	}
+	if (typeof Blob !== "undefined" && frame instanceof Blob) {
+		return frame.size;
+	}
+	return (frame as ArrayBuffer | ArrayBufferView).byteLength;
+}
+
+/**
+ * Check for an attachment placeholder
+ */
+function isPlaceholder(value: unknown): value is AttachmentPlaceholder {
+	return (
+		isPlainObject(value) &&
+		value._placeholder === true &&
+		typeof value.num === "number"
+	);
+}
+
+/**
+ * Check for a plain object (not binary, not an array)
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	return (
+		typeof value === "object" &&
+		value !== null &&
+		!Array.isArray(value) &&
+		!isBinary(value)
+	);
+}
@@ -0,0 +1,153 @@
+/**
+ * Sockeon Emit Coalescer
+ *
+ * Latest-value emits for high-frequency events (cursors, typing, sliders):
+ * - One slot per event (and optional key); newer payloads replace pending ones
+ * - At most one message per interval per slot, always the latest value
+ * - Pending values can be held across a disconnect and sent on reconnect
+ */
+
+import type { SockeonMessage, TimerHandle } from "./types";
+
+/**
+ * Coalescing slot for one event/key
+ */
+interface Slot {
+	message: SockeonMessage | null;
+	timer: TimerHandle | null;
+	interval: number;
+}
+
+/**
+ * Coalescer callbacks (provided by Sockeon)
+ */
+export interface CoalescerHandlers {
+	/** Send a message now */
+	send: (message: SockeonMessage) => void;
+	/** Check if messages can be sent */
+	canSend: () => boolean;
+}
+
+/**
+ * Per-slot throttle that always sends the latest value
+ */
+export class EmitCoalescer {
+	private slots: Map<string, Slot> = new Map();
+	private handlers: CoalescerHandlers;
+
+	constructor(handlers: CoalescerHandlers) {
+		this.handlers = handlers;
+	}
+
+	/**
+	 * Submit the latest value for a slot
+	 * With `leading`, an idle slot sends right away; otherwise the value is
+	 * sent when the interval elapses.
+	 */
+	push(
+		id: string,
+		message: SockeonMessage,
+		interval: number,
+		leading: boolean,
+	): void {
+		let slot = this.slots.get(id);
+		if (!slot) {
+			slot = { message: null, timer: null, interval };
+			this.slots.set(id, slot);
+		}
+		slot.interval = interval;
+
+		const idle = slot.timer === null && this.handlers.canSend();
+		if (idle && leading) {
+			slot.message = null;
+			this.handlers.send(message);
+			this.schedule(id, slot);
+			return;
+		}
+
+		slot.message = message;
+		if (idle) {
+			this.schedule(id, slot);
+		}
+	}
+
+	/**
+	 * Send every held value now (connection established)
+	 */
+	resume(): void {
+		for (const [id, slot] of this.slots) {
+			if (slot.message && slot.timer === null) {
+				const message = slot.message;
+				slot.message = null;
+				this.handlers.send(message);
+				this.schedule(id, slot);
+			}
+		}
+	}
+
+	/**
+	 * Stop flushing but keep pending values (connection lost, 'hold')
+	 */
+	pause(): void {
+		for (const [id, slot] of this.slots) {
+			this.clearTimer(slot);
+			if (!slot.message) {
+				this.slots.delete(id);
+			}
+		}
+	}
+
+	/**
+	 * Discard all pending values
+	 */
+	clear(): void {
+		for (const slot of this.slots.values()) {
+			this.clearTimer(slot);
+		}
+		this.slots.clear();
+	}
+
+	/**
+	 * Number of values waiting to be sent
+	 */
+	size(): number {
+		let count = 0;
+		for (const slot of this.slots.values()) {
+			if (slot.message) {
+				count++;
+			}
+		}
+		return count;
+	}
+
+	/**
+	 * Close the slot's window after its interval, sending the latest value
+	 */
+	private schedule(id: string, slot: Slot): void {
+		slot.timer = setTimeout(() => {
+			slot.timer = null;
+
+			if (!slot.message) {
+				this.slots.delete(id);
+				return;
+			}
+
+			// Offline: keep the value until resume() or clear()
+			if (!this.handlers.canSend()) {
+				return;
+			}
+
+			const message = slot.message;
+			slot.message = null;
+			this.handlers.send(message);
+			this.schedule(id, slot);
+		}, slot.interval);
+	}
+
+	private clearTimer(slot: Slot): void {
+		if (slot.timer !== null) {
+			clearTimeout(slot.timer);
+			slot.timer = null;
+		}
+	}
+}
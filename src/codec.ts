@@ -0,0 +1,82 @@
+/**
+ * Sockeon Codecs
+ *
+ * Pluggable wire encodings for protocol messages:
+ * - JsonCodec: JSON text frames (Sockeon's default protocol)
+ * - MessagePackCodec: compact MessagePack binary frames
+ * - Codecs are negotiated through WebSocket sub-protocols (codec.protocol)
+ */
+
+import { decode, encode } from "./msgpack";
+import type { SockeonMessage } from "./types";
+
+/**
+ * Encodes protocol messages to frames and back
+ */
+export interface Codec {
+	/** Codec name (for logging) */
+	readonly name: string;
+	/** WebSocket sub-protocol that selects this codec */
+	readonly protocol: string;
+	/**
+	 * Whether frames are binary
+	 * Text codecs send binary payload values as attachment frames; binary
+	 * codecs must encode them inline.
+	 */
+	readonly binary: boolean;
+	/** Encode a message to a frame */
+	encode(message: SockeonMessage): string | Uint8Array;
+	/** Decode a frame (validated by the transport) */
+	decode(data: string | Uint8Array): unknown;
+}
+
+/**
+ * JSON codec (text frames)
+ */
+export class JsonCodec implements Codec {
+	readonly name = "json";
+	readonly protocol = "sockeon.json";
+	readonly binary = false;
+
+	/**
+	 * Encode message as JSON text
+	 */
+	encode(message: SockeonMessage): string {
+		return JSON.stringify(message);
+	}
+
+	/**
+	 * Decode JSON text (binary frames are read as UTF-8)
+	 */
+	decode(data: string | Uint8Array): unknown {
+		return JSON.parse(
+			typeof data === "string" ? data : new TextDecoder().decode(data),
+		);
+	}
+}
+
+/**
+ * MessagePack codec (binary frames)
+ */
+export class MessagePackCodec implements Codec {
+	readonly name = "msgpack";
+	readonly protocol = "sockeon.msgpack";
+	readonly binary = true;
+
+	/**
+	 * Encode message as MessagePack
+	 */
+	encode(message: SockeonMessage): Uint8Array {
+		return encode(message);
+	}
+
+	/**
+	 * Decode MessagePack bytes
+	 */
+	decode(data: string | Uint8Array): unknown {
+		if (typeof data === "string") {
+			throw new TypeError("MessagePack codec expects binary frames");
+		}
+		return decode(data);
+	}
+}
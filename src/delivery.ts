@@ -0,0 +1,65 @@
+/**
+ * Sockeon Delivery Tracking
+ *
+ * Sequence numbers for exactly-once delivery:
+ * - Outgoing messages get increasing sequence numbers (server-side dedup)
+ * - Incoming duplicates are detected within a sliding window
+ * - The highest sequence number seen is the resume token for reconnects
+ */
+
+/**
+ * Sequence numbering and duplicate detection
+ */
+export class DeliveryTracker {
+	private windowSize: number;
+	private seen: Set<number> = new Set();
+	private order: number[] = [];
+	private lastSeenId: number | null = null;
+	private outgoingSeq: number = 0;
+
+	constructor(windowSize: number) {
+		this.windowSize = windowSize;
+	}
+
+	/**
+	 * Next outgoing sequence number
+	 */
+	nextSeq(): number {
+		this.outgoingSeq++;
+		return this.outgoingSeq;
+	}
+
+	/**
+	 * Record an incoming sequence number
+	 * Returns false if it was already seen (duplicate).
+	 */
+	accept(seq: number): boolean {
+		if (this.seen.has(seq)) {
+			return false;
+		}
+
+		this.seen.add(seq);
+		this.order.push(seq);
+
+		// Slide the window: forget the oldest entries
+		while (this.order.length > this.windowSize) {
+			const oldest = this.order.shift();
+			if (oldest !== undefined) {
+				this.seen.delete(oldest);
+			}
+		}
+
+		if (this.lastSeenId === null || seq > this.lastSeenId) {
+			this.lastSeenId = seq;
+		}
+
+		return true;
+	}
+
+	/**
+	 * Highest incoming sequence number seen (null if none)
+	 */
+	getLastSeenId(): number | null {
+		return this.lastSeenId;
+	}
+}
@@ -0,0 +1,133 @@
+/**
+ * Sockeon Endpoints
+ *
+ * Multi-URL failover:
+ * - The first URL is the primary and is preferred whenever it is healthy
+ * - A failed endpoint is avoided for the cooldown; attempts rotate to the next
+ *   healthy one (or the one whose cooldown ends first when none is healthy)
+ * - Per-endpoint health is tracked for getEndpoints()
+ */
+
+import type { EndpointHealth, FailoverConfig } from "./types";
+
+/**
+ * Health record of one endpoint
+ */
+interface Endpoint {
+	url: string;
+	failures: number;
+	unhealthyUntil: number;
+	lastFailureAt: number | null;
+	lastSuccessAt: number | null;
+}
+
+/**
+ * Ordered endpoint list with health tracking
+ */
+export class EndpointPool {
+	private endpoints: Endpoint[];
+	private config: FailoverConfig;
+	private current: number = 0;
+
+	constructor(urls: string[], config: FailoverConfig) {
+		this.endpoints = urls.map((url) => ({
+			url,
+			failures: 0,
+			unhealthyUntil: 0,
+			lastFailureAt: null,
+			lastSuccessAt: null,
+		}));
+		this.config = config;
+	}
+
+	/**
+	 * Primary endpoint URL
+	 */
+	get primary(): string {
+		return this.endpoints[0].url;
+	}
+
+	/**
+	 * Pick the endpoint for the next connection attempt
+	 */
+	select(): string {
+		const now = Date.now();
+		const count = this.endpoints.length;
+
+		// Prefer the primary, otherwise the next healthy one after the current
+		let index = this.isHealthy(this.endpoints[0], now) ? 0 : -1;
+		for (let step = 1; index === -1 && step <= count; step++) {
+			const candidate = (this.current + step) % count;
+			if (this.isHealthy(this.endpoints[candidate], now)) {
+				index = candidate;
+			}
+		}
+
+		// All unhealthy: the one that has been avoided the longest
+		if (index === -1) {
+			index = 0;
+			for (let i = 1; i < count; i++) {
+				if (
+					this.endpoints[i].unhealthyUntil <
+					this.endpoints[index].unhealthyUntil
+				) {
+					index = i;
+				}
+			}
+		}
+
+		this.current = index;
+		return this.endpoints[index].url;
+	}
+
+	/**
+	 * Record a failed connection (or a dropped one) to an endpoint
+	 */
+	recordFailure(url: string): void {
+		const endpoint = this.find(url);
+		if (!endpoint) {
+			return;
+		}
+
+		const now = Date.now();
+		endpoint.failures++;
+		endpoint.lastFailureAt = now;
+		endpoint.unhealthyUntil = now + this.config.cooldown;
+	}
+
+	/**
+	 * Record a successful connection to an endpoint
+	 */
+	recordSuccess(url: string): void {
+		const endpoint = this.find(url);
+		if (!endpoint) {
+			return;
+		}
+
+		endpoint.failures = 0;
+		endpoint.unhealthyUntil = 0;
+		endpoint.lastSuccessAt = Date.now();
+	}
+
+	/**
+	 * Health snapshot of every endpoint
+	 */
+	getHealth(): EndpointHealth[] {
+		const now = Date.now();
+		return this.endpoints.map((endpoint) => ({
+			url: endpoint.url,
+			healthy: this.isHealthy(endpoint, now),
+			failures: endpoint.failures,
+			lastFailureAt: endpoint.lastFailureAt,
+			lastSuccessAt: endpoint.lastSuccessAt,
+		}));
+	}
+
+	private isHealthy(endpoint: Endpoint, now: number): boolean {
+		return now >= endpoint.unhealthyUntil;
+	}
+
+	private find(url: string): Endpoint | undefined {
+		return this.endpoints.find((endpoint) => endpoint.url === url);
+	}
+}
@@ -0,0 +1,77 @@
+/**
+ * Sockeon Environment Probes
+ *
+ * Network and page visibility signals used for smarter reconnects:
+ * - Pause retries while offline, reconnect as soon as the network is back
+ * - Suspend heartbeats in hidden tabs, verify the connection when visible
+ * - Pluggable (see MockEnvironment for a scriptable implementation)
+ */
+
+/**
+ * Environment change reported by a probe
+ */
+export type EnvironmentChange = "online" | "offline" | "visible" | "hidden";
+
+/**
+ * Source of network and visibility state
+ */
+export interface EnvironmentProbe {
+	/** Whether the network is available (true when unknown) */
+	isOnline(): boolean;
+	/** Whether the page is visible (true when unknown) */
+	isVisible(): boolean;
+	/** Listen for changes; returns a function that stops listening */
+	subscribe(listener: (change: EnvironmentChange) => void): () => void;
+}
+
+/**
+ * Minimal event target shape of window/document
+ */
+interface EventTargetLike {
+	addEventListener(type: string, listener: () => void): void;
+	removeEventListener(type: string, listener: () => void): void;
+}
+
+/**
+ * Browser probe: navigator.onLine, online/offline and visibilitychange events
+ * Degrades to "always online and visible" where these APIs don't exist
+ * (Node.js, workers without a document).
+ */
+export class BrowserEnvironment implements EnvironmentProbe {
+	/**
+	 * Check navigator.onLine
+	 */
+	isOnline(): boolean {
+		return globalThis.navigator?.onLine ?? true;
+	}
+
+	/**
+	 * Check document.visibilityState
+	 */
+	isVisible(): boolean {
+		return globalThis.document?.visibilityState !== "hidden";
+	}
+
+	/**
+	 * Listen to window and document events
+	 */
+	subscribe(listener: (change: EnvironmentChange) => void): () => void {
+		const target = globalThis as unknown as Partial<EventTargetLike>;
+		const document = globalThis.document as EventTargetLike | undefined;
+
+		const onOnline = () => listener("online");
+		const onOffline = () => listener("offline");
+		const onVisibilityChange = () =>
+			listener(this.isVisible() ? "visible" : "hidden");
+
+		target.addEventListener?.("online", onOnline);
+		target.addEventListener?.("offline", onOffline);
+		document?.addEventListener("visibilitychange", onVisibilityChange);
+
+		return () => {
+			target.removeEventListener?.("online", onOnline);
+			target.removeEventListener?.("offline", onOffline);
+			document?.removeEventListener("visibilitychange", onVisibilityChange);
+		};
+	}
+}
@@ -7,9 +7,17 @@
  * - Event removal (off)
  * - Once handlers
  * - Wildcard support (*)
+ * - Typed event maps
  */
 
-import type { EventHandler } from "./types";
+import type {
+	DefaultServerEvents,
+	EventHandler,
+	EventListener,
+	EventNames,
+	EventPayload,
+	EventsMap,
+} from "./types";
 
 /**
  * Internal event handler wrapper
@@ -21,8 +29,9 @@ interface HandlerWrapper {
 
 /**
  * Event emitter for Sockeon client
+ * Event names and payloads are checked against the `Events` map.
  */
-export class EventEmitter {
+export class EventEmitter<Events extends EventsMap = DefaultServerEvents> {
 	private events: Map<string, HandlerWrapper[]> = new Map();
 	private debug: boolean = false;
 
@@ -33,13 +42,16 @@ export class EventEmitter {
 	/**
 	 * Register an event handler
 	 */
-	on(event: string, handler: EventHandler): void {
+	on<E extends EventNames<Events> | "*">(
+		event: E,
+		handler: EventListener<Events, E>,
+	): void {
 		if (typeof handler !== "function") {
 			throw new Error("Event handler must be a function");
 		}
 
 		const handlers = this.events.get(event) || [];
-		handlers.push({ handler, once: false });
+		handlers.push({ handler: handler as EventHandler, once: false });
 		this.events.set(event, handlers);
 
 		this.log(`Registered handler for event: ${event}`);
@@ -48,13 +60,16 @@ export class EventEmitter {
 	/**
 	 * Register a one-time event handler
 	 */
-	once(event: string, handler: EventHandler): void {
+	once<E extends EventNames<Events> | "*">(
+		event: E,
+		handler: EventListener<Events, E>,
+	): void {
 		if (typeof handler !== "function") {
 			throw new Error("Event handler must be a function");
 		}
 
 		const handlers = this.events.get(event) || [];
-		handlers.push({ handler, once: true });
+		handlers.push({ handler: handler as EventHandler, once: true });
 		this.events.set(event, handlers);
 
 		this.log(`Registered once handler for event: ${event}`);
@@ -64,7 +79,10 @@ export class EventEmitter {
 	 * Remove event handler(s)
 	 * If no handler provided, removes all handlers for the event
 	 */
-	off(event: string, handler?: EventHandler): void {
+	off<E extends EventNames<Events> | "*">(
+		event: E,
+		handler?: EventListener<Events, E>,
+	): void {
 		if (!this.events.has(event)) {
 			return;
 		}
@@ -92,7 +110,10 @@ export class EventEmitter {
 	/**
 	 * Emit an event with data
 	 */
-	emit(event: string, data?: unknown): void {
+	emit<E extends EventNames<Events>>(
+		event: E,
+		data?: EventPayload<Events, E>,
+	): void {
 		this.log(`Emitting event: ${event}`, data);
 
 		// Call handlers for specific event
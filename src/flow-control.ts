@@ -0,0 +1,92 @@
+/**
+ * Sockeon Flow Control
+ *
+ * Outbound backpressure based on the transport's buffered amount:
+ * - Backpressure starts when the buffer exceeds the high-water mark
+ * - The buffer is polled until it falls below the low-water mark ('drain')
+ */
+
+import type { FlowControlConfig, TimerHandle } from "./types";
+
+/**
+ * Buffered amount monitor
+ */
+export class FlowControl {
+	private config: FlowControlConfig;
+	private getBufferedAmount: () => number;
+	private onDrain: (bufferedAmount: number) => void;
+	private timer: TimerHandle | null = null;
+	private backpressure: boolean = false;
+	private debug: boolean = false;
+
+	constructor(
+		config: FlowControlConfig,
+		getBufferedAmount: () => number,
+		onDrain: (bufferedAmount: number) => void,
+		debug: boolean = false,
+	) {
+		this.config = config;
+		this.getBufferedAmount = getBufferedAmount;
+		this.onDrain = onDrain;
+		this.debug = debug;
+	}
+
+	/**
+	 * Check the buffer after a send; returns the backpressure state
+	 */
+	check(): boolean {
+		if (this.backpressure) {
+			return true;
+		}
+
+		const bufferedAmount = this.getBufferedAmount();
+		if (bufferedAmount > this.config.highWaterMark) {
+			this.backpressure = true;
+			this.log(`Backpressure: ${bufferedAmount} bytes buffered`);
+			this.timer = setInterval(() => this.poll(), this.config.checkInterval);
+		}
+
+		return this.backpressure;
+	}
+
+	/**
+	 * Current backpressure state
+	 */
+	isBackpressured(): boolean {
+		return this.backpressure;
+	}
+
+	/**
+	 * Stop monitoring (connection closed)
+	 */
+	reset(): void {
+		if (this.timer !== null) {
+			clearInterval(this.timer);
+			this.timer = null;
+		}
+		this.backpressure = false;
+	}
+
+	/**
+	 * Wait for the buffer to drain below the low-water mark
+	 */
+	private poll(): void {
+		const bufferedAmount = this.getBufferedAmount();
+		if (bufferedAmount > this.config.lowWaterMark) {
+			return;
+		}
+
+		this.reset();
+		this.log(`Drained: ${bufferedAmount} bytes buffered`);
+		this.onDrain(bufferedAmount);
+	}
+
+	/**
+	 * Debug logging
+	 */
+	private log(...args: unknown[]): void {
+		if (this.debug) {
+			console.log("[Sockeon Flow Control]", ...args);
+		}
+	}
+}
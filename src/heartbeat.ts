@@ -0,0 +1,148 @@
+/**
+ * Sockeon Heartbeat
+ *
+ * Application-level keep-alive over the JSON protocol:
+ * - Periodic ping events
+ * - Pong timeout detection (dead/half-open connections)
+ * - Round-trip latency measurement
+ */
+
+import type { HeartbeatConfig, TimerHandle } from "./types";
+
+/**
+ * Heartbeat callbacks (provided by Sockeon)
+ */
+export interface HeartbeatHandlers {
+	/** Send a ping event to the server */
+	ping: (timestamp: number) => void;
+	/** No pong arrived within the configured timeout */
+	timeout: () => void;
+	/** Pong received, with measured round-trip time */
+	latency: (latency: number) => void;
+}
+
+/**
+ * Ping/pong heartbeat monitor
+ */
+export class Heartbeat {
+	private config: HeartbeatConfig;
+	private handlers: HeartbeatHandlers;
+	private intervalTimer: TimerHandle | null = null;
+	private timeoutTimer: TimerHandle | null = null;
+	private pingSentAt: number | null = null;
+	private lastLatency: number | null = null;
+	private debug: boolean = false;
+
+	constructor(
+		config: HeartbeatConfig,
+		handlers: HeartbeatHandlers,
+		debug: boolean = false,
+	) {
+		this.config = config;
+		this.handlers = handlers;
+		this.debug = debug;
+	}
+
+	/**
+	 * Start sending pings
+	 */
+	start(): void {
+		this.stop();
+
+		const { interval } = this.config;
+		this.intervalTimer = setInterval(() => this.ping(), interval);
+
+		this.log(`Heartbeat started (interval: ${interval}ms)`);
+	}
+
+	/**
+	 * Stop sending pings and cancel any pending timeout
+	 */
+	stop(): void {
+		if (this.intervalTimer !== null) {
+			clearInterval(this.intervalTimer);
+			this.intervalTimer = null;
+			this.log("Heartbeat stopped");
+		}
+
+		this.clearTimeoutTimer();
+		this.pingSentAt = null;
+	}
+
+	/**
+	 * Ping right away to verify the connection is still alive
+	 */
+	check(): void {
+		this.ping();
+	}
+
+	/**
+	 * Handle pong from the server
+	 */
+	handlePong(): void {
+		if (this.pingSentAt === null) {
+			this.log("Unexpected pong received");
+			return;
+		}
+
+		const latency = Date.now() - this.pingSentAt;
+		this.pingSentAt = null;
+		this.lastLatency = latency;
+		this.clearTimeoutTimer();
+
+		this.log(`Pong received (latency: ${latency}ms)`);
+		this.handlers.latency(latency);
+	}
+
+	/**
+	 * Last measured round-trip time in milliseconds
+	 */
+	getLatency(): number | null {
+		return this.lastLatency;
+	}
+
+	/**
+	 * Send a ping and arm the pong timeout
+	 */
+	private ping(): void {
+		// Still waiting for the previous pong; the timeout will handle it
+		if (this.pingSentAt !== null) {
+			return;
+		}
+
+		const { timeout } = this.config;
+		this.pingSentAt = Date.now();
+
+		try {
+			this.handlers.ping(this.pingSentAt);
+		} catch (error) {
+			this.log("Failed to send ping:", error);
+		}
+
+		this.timeoutTimer = setTimeout(() => {
+			this.timeoutTimer = null;
+			this.log(`Heartbeat timeout - no pong within ${timeout}ms`);
+			this.stop();
+			this.handlers.timeout();
+		}, timeout);
+	}
+
+	/**
+	 * Clear pong timeout timer
+	 */
+	private clearTimeoutTimer(): void {
+		if (this.timeoutTimer !== null) {
+			clearTimeout(this.timeoutTimer);
+			this.timeoutTimer = null;
+		}
+	}
+
+	/**
+	 * Debug logging
+	 */
+	private log(...args: unknown[]): void {
+		if (this.debug) {
+			console.log("[Sockeon Heartbeat]", ...args);
+		}
+	}
+}
@@ -22,44 +22,208 @@
  * ```
  */
 
+import { AckRegistry } from "./acks";
+import { Backoff } from "./backoff";
+import { EmitCoalescer } from "./coalescer";
+import { DeliveryTracker } from "./delivery";
+import { EndpointPool } from "./endpoints";
+import {
+	BrowserEnvironment,
+	type EnvironmentChange,
+	type EnvironmentProbe,
+} from "./environment";
 import { EventEmitter } from "./events";
-import { WebSocketTransport } from "./transport";
+import { FlowControl } from "./flow-control";
+import { Heartbeat } from "./heartbeat";
+import { MiddlewarePipeline } from "./middleware";
+import {
+	Namespace,
+	type NamespaceEvents,
+	type NamespaceRoute,
+} from "./namespace";
+import type { Presence } from "./presence";
+import type { Room } from "./room";
+import { MessageQueue, type QueuedMessage } from "./queue";
+import { RateLimiter } from "./rate-limit";
+import { StatsCollector } from "./stats";
+import { type EventSource, EventObservable, EventStream } from "./stream";
+import {
+	type Transport,
+	type TransportOptions,
+	WebSocketTransport,
+} from "./transport";
+import { CLOSE_CODE_POLICY, CLOSE_CODES } from "./types";
 import type {
+	AckOptions,
+	AuthConfig,
+	ClientEventsMap,
 	ConnectionInfo,
 	ConnectionState,
-	EventHandler,
+	ConnectionStats,
+	DefaultClientEvents,
+	DefaultServerEvents,
+	DeliveryConfig,
+	DisconnectEventData,
+	EmitLatestOptions,
+	EmitResult,
+	EmitStatus,
+	EndpointChangeReason,
+	EndpointHealth,
+	EnvironmentConfig,
+	EventListener,
+	EventNames,
+	EventPayload,
+	EventsMap,
+	FlowControlConfig,
 	HeartbeatConfig,
+	ListenEvents,
+	MessageData,
+	MiddlewareConfig,
+	NamespaceClient,
 	NormalizedSockeonOptions,
+	QueueConfig,
+	QueueDropReason,
 	ReconnectConfig,
+	ReconnectFailedReason,
+	RoomInfo,
+	RoomState,
+	RoomsRestoredEventData,
+	SchemaConfig,
+	SockeonError,
 	SockeonMessage,
 	SockeonOptions,
+	StatsConfig,
+	StreamOptions,
+	SystemEventMap,
+	TimerHandle,
+	WaitForOptions,
 } from "./types";
+import { formatIssues, SchemaRegistry } from "./validation";
 
 /**
  * Main Sockeon WebSocket client
+ *
+ * `ServerEvents` maps incoming event names to payloads and `ClientEvents`
+ * maps outgoing ones. Both default to untyped maps.
+ *
+ * @example
+ * ```ts
+ * interface ServerEvents { 'chat.message': { user: string; body: string } }
+ * interface ClientEvents { 'chat.send': { body: string } }
+ *
+ * const socket = new Sockeon<ServerEvents, ClientEvents>({ url });
+ * socket.on('chat.message', ({ user, body }) => render(user, body));
+ * socket.emit('chat.send', { body: 'Hi' });
+ * ```
  */
-export class Sockeon {
+export class Sockeon<
+	ServerEvents extends EventsMap = DefaultServerEvents,
+	ClientEvents extends ClientEventsMap<ClientEvents> = DefaultClientEvents,
+> {
 	private options: NormalizedSockeonOptions;
-	private transport: WebSocketTransport;
-	private events: EventEmitter;
+	private transport: Transport;
+	private endpoints: EndpointPool | null;
+	private activeUrl: string;
+	private probe: Transport | null = null;
+	private probeTimer: TimerHandle | null = null;
+	private switchingEndpoint: boolean = false;
+	// Close of the fallback connection, reported only if failing back fails
+	private failBackClose: DisconnectEventData | null = null;
+	private events: EventEmitter<SystemEventMap>;
+	private queue: MessageQueue;
+	private acks: AckRegistry = new AckRegistry();
+	private incoming: MiddlewarePipeline = new MiddlewarePipeline();
+	private outgoing: MiddlewarePipeline = new MiddlewarePipeline();
+	private incomingSchemas: SchemaRegistry = new SchemaRegistry();
+	private outgoingSchemas: SchemaRegistry = new SchemaRegistry();
 	private state: ConnectionState = "disconnected";
 	private reconnectAttempts: number = 0;
-	private reconnectTimer: number | null = null;
-	private heartbeatTimer: number | null = null;
+	private reconnectTimer: TimerHandle | null = null;
+	private backoff: Backoff;
+	private lastCloseCode: number | null = null;
+	private environment: EnvironmentProbe | null;
+	private unwatchEnvironment: (() => void) | null = null;
+	private networkPaused: boolean = false;
+	private delivery: DeliveryTracker | null;
+	private limiter: RateLimiter | null;
+	private flowControl: FlowControl | null;
+	private coalescer: EmitCoalescer;
+	private stats: StatsCollector | null;
+	private statsTimer: TimerHandle | null = null;
+	private heartbeat: Heartbeat;
 	private connectedAt: number | null = null;
-	private rooms: Set<string> = new Set();
+	private root: Namespace<ListenEvents<ServerEvents>, ClientEvents>;
+	private namespaces: Map<string, NamespaceRoute> = new Map();
 	private manualDisconnect: boolean = false;
+	private connectGeneration: number = 0;
+	private authRetried: boolean = false;
+	private authRejection: { code?: number | string; message: string } | null =
+		null;
+	private pendingConnect: {
+		promise: Promise<void>;
+		resolve: () => void;
+		reject: (error: Error) => void;
+		timer: TimerHandle | null;
+	} | null = null;
 
 	constructor(options: SockeonOptions) {
 		this.options = this.normalizeOptions(options);
-		this.events = new EventEmitter(this.options.debug);
-		this.transport = new WebSocketTransport({
-			url: this.options.url,
-			auth: this.options.auth,
-			query: this.options.query,
-			protocols: this.options.protocols,
-			debug: this.options.debug,
+		this.events = new EventEmitter<SystemEventMap>(this.options.debug);
+		this.backoff = new Backoff(this.options.reconnect);
+		this.endpoints = this.options.resolveUrl
+			? null
+			: new EndpointPool(this.options.urls, this.options.failover);
+		this.activeUrl = this.options.url;
+		this.limiter = this.options.rateLimit
+			? new RateLimiter(
+					this.options.rateLimit,
+					(message) => this.releaseMessage(message),
+					this.options.debug,
+				)
+			: null;
+		this.flowControl = this.options.flowControl.enabled
+			? new FlowControl(
+					this.options.flowControl,
+					() => this.transport.getBufferedAmount?.() ?? 0,
+					(bufferedAmount) => this.events.emit("drain", { bufferedAmount }),
+					this.options.debug,
+				)
+			: null;
+		this.coalescer = new EmitCoalescer({
+			send: (message) => this.releaseLatest(message),
+			canSend: () => this.state === "connected",
 		});
+		this.delivery = this.options.delivery.enabled
+			? new DeliveryTracker(this.options.delivery.dedupWindow)
+			: null;
+		this.stats = this.options.stats.enabled
+			? new StatsCollector(this.options.stats)
+			: null;
+		this.environment = this.options.environment.enabled
+			? (this.options.environment.probe ?? new BrowserEnvironment())
+			: null;
+		this.heartbeat = new Heartbeat(
+			this.options.heartbeat,
+			{
+				ping: (timestamp) => this.sendPing(timestamp),
+				timeout: () => this.handleHeartbeatTimeout(),
+				latency: (latency) => this.handleLatency(latency),
+			},
+			this.options.debug,
+		);
+		this.root = this.createNamespace(
+			this.options.namespace,
+			// System and server events share the default namespace's emitter
+			this.events,
+		);
+		this.queue = new MessageQueue(this.options.queue, (entry, reason) =>
+			this.handleQueueDrop(entry, reason),
+		);
+		this.transport = this.createTransport();
+
+		if (this.options.schemas) {
+			this.registerSchemas(this.options.schemas);
+		}
 
 		this.setupTransportHandlers();
 	}
@@ -70,28 +234,93 @@ export class Sockeon {
 	private normalizeOptions(options: SockeonOptions): NormalizedSockeonOptions {
 		const defaults = {
 			namespace: "/",
+			failover: {
+				cooldown: 30000,
+				probeInterval: 60000,
+			},
 			reconnect: {
 				enabled: true,
 				maxAttempts: 5,
 				delay: 1000,
 				maxDelay: 30000,
 				factor: 1.5,
+				jitter: "none" as const,
+				closeCodes: CLOSE_CODE_POLICY,
 			},
 			heartbeat: {
-				enabled: true,
+				enabled: false,
 				interval: 30000,
 				timeout: 5000,
+				pingEvent: "ping",
+				pongEvent: "pong",
+			},
+			queue: {
+				enabled: false,
+				maxSize: 100,
+				overflow: "drop-oldest" as const,
+				ttl: 0,
+			},
+			environment: {
+				enabled: false,
+				pauseWhenOffline: true,
+				suspendHeartbeatWhenHidden: true,
+				verifyConnection: true,
+			},
+			delivery: {
+				enabled: false,
+				dedupWindow: 1000,
+				resumeParam: "lastSeenId",
 			},
+			stats: {
+				enabled: false,
+				interval: 0,
+				latencySamples: 100,
+				reconnectBuckets: [500, 1000, 2500, 5000, 10000, 30000, 60000],
+			},
+			flowControl: {
+				enabled: true,
+				highWaterMark: 1048576,
+				lowWaterMark: 262144,
+				checkInterval: 100,
+			},
+			emitLatest: {
+				interval: 100,
+				onDisconnect: "drop" as const,
+			},
+			presence: {
+				timeout: 30000,
+			},
+			connectTimeout: 0,
+			rejoinRooms: true,
+			confirmRooms: true,
+			ackTimeout: 10000,
 			query: {},
 			debug: false,
 		};
 
+		// Handle url option (first URL is the primary)
+		const urls = Array.isArray(options.url)
+			? [...options.url]
+			: options.url
+				? [options.url]
+				: [];
+		if (urls.length === 0 && !options.resolveUrl) {
+			throw new Error("Invalid options: url or resolveUrl is required");
+		}
+
 		// Handle reconnect option
 		let reconnect: ReconnectConfig;
 		if (typeof options.reconnect === "boolean") {
 			reconnect = { ...defaults.reconnect, enabled: options.reconnect };
 		} else if (options.reconnect) {
-			reconnect = { ...defaults.reconnect, ...options.reconnect };
+			reconnect = {
+				...defaults.reconnect,
+				...options.reconnect,
+				closeCodes: {
+					...defaults.reconnect.closeCodes,
+					...options.reconnect.closeCodes,
+				},
+			};
 		} else {
 			reconnect = defaults.reconnect;
 		}
@@ -101,48 +330,184 @@ export class Sockeon {
 		if (typeof options.heartbeat === "boolean") {
 			heartbeat = { ...defaults.heartbeat, enabled: options.heartbeat };
 		} else if (options.heartbeat) {
-			heartbeat = { ...defaults.heartbeat, ...options.heartbeat };
+			heartbeat = {
+				...defaults.heartbeat,
+				enabled: true,
+				...options.heartbeat,
+			};
 		} else {
 			heartbeat = defaults.heartbeat;
 		}
 
+		// Handle queue option
+		let queue: QueueConfig;
+		if (typeof options.queue === "boolean") {
+			queue = { ...defaults.queue, enabled: options.queue };
+		} else if (options.queue) {
+			queue = { ...defaults.queue, enabled: true, ...options.queue };
+		} else {
+			queue = defaults.queue;
+		}
+
+		// Handle delivery option
+		let delivery: DeliveryConfig;
+		if (typeof options.delivery === "boolean") {
+			delivery = { ...defaults.delivery, enabled: options.delivery };
+		} else if (options.delivery) {
+			delivery = { ...defaults.delivery, enabled: true, ...options.delivery };
+		} else {
+			delivery = defaults.delivery;
+		}
+
+		// Handle stats option
+		let stats: StatsConfig;
+		if (typeof options.stats === "boolean") {
+			stats = { ...defaults.stats, enabled: options.stats };
+		} else if (options.stats) {
+			stats = { ...defaults.stats, enabled: true, ...options.stats };
+		} else {
+			stats = defaults.stats;
+		}
+
+		// Handle flow control option
+		let flowControl: FlowControlConfig;
+		if (typeof options.flowControl === "boolean") {
+			flowControl = { ...defaults.flowControl, enabled: options.flowControl };
+		} else if (options.flowControl) {
+			flowControl = {
+				...defaults.flowControl,
+				enabled: true,
+				...options.flowControl,
+			};
+		} else {
+			flowControl = defaults.flowControl;
+		}
+
+		// Handle environment option
+		let environment: EnvironmentConfig;
+		if (typeof options.environment === "boolean") {
+			environment = { ...defaults.environment, enabled: options.environment };
+		} else if (options.environment) {
+			environment = {
+				...defaults.environment,
+				enabled: true,
+				...options.environment,
+			};
+		} else {
+			environment = defaults.environment;
+		}
+
 		return {
-			url: options.url,
+			url: urls[0] ?? "",
+			urls,
+			resolveUrl: options.resolveUrl,
+			failover: { ...defaults.failover, ...options.failover },
 			namespace: options.namespace || defaults.namespace,
-			auth: options.auth,
+			auth: this.normalizeAuth(options.auth),
 			reconnect,
 			heartbeat,
+			queue,
+			environment,
+			delivery,
+			stats,
+			rateLimit: options.rateLimit,
+			flowControl,
+			emitLatest: { ...defaults.emitLatest, ...options.emitLatest },
+			presence: { ...defaults.presence, ...options.presence },
+			connectTimeout: options.connectTimeout ?? defaults.connectTimeout,
+			rejoinRooms: options.rejoinRooms ?? defaults.rejoinRooms,
+			confirmRooms: options.confirmRooms ?? defaults.confirmRooms,
+			ackTimeout: options.ackTimeout ?? defaults.ackTimeout,
+			schemas: options.schemas,
 			query: { ...defaults.query, ...options.query },
 			protocols: options.protocols,
+			codec: options.codec,
+			WebSocket: options.WebSocket,
+			transport: options.transport,
 			debug: options.debug ?? defaults.debug,
 		};
 	}
 
+	/**
+	 * Apply auth defaults
+	 */
+	private normalizeAuth(auth?: AuthConfig): AuthConfig | undefined {
+		if (!auth) {
+			return undefined;
+		}
+
+		return {
+			rejectCodes: [CLOSE_CODES.AUTH_REJECTED, 401, 403],
+			...auth,
+		};
+	}
+
+	/**
+	 * Create the transport from options (WebSocket by default)
+	 */
+	private createTransport(url: string = this.options.url): Transport {
+		const { transport } = this.options;
+		const transportOptions: TransportOptions = {
+			url,
+			auth: this.options.auth,
+			query: this.options.query,
+			protocols: this.options.protocols,
+			codec: this.options.codec,
+			WebSocket: this.options.WebSocket,
+			debug: this.options.debug,
+		};
+
+		if (typeof transport === "function") {
+			return transport(transportOptions);
+		}
+
+		return transport ?? new WebSocketTransport(transportOptions);
+	}
+
 	/**
 	 * Setup transport event handlers
 	 */
 	private setupTransportHandlers(): void {
+		const { stats } = this;
 		this.transport.on({
 			onOpen: () => this.handleConnect(),
 			onMessage: (message) => this.handleMessage(message),
 			onClose: (code, reason) => this.handleDisconnect(code, reason),
 			onError: (error) => this.handleError(error),
-			onPong: () => this.handlePong(),
+			// Frames are only measured while stats are enabled
+			onTraffic: stats
+				? (direction, bytes) => stats.recordTraffic(direction, bytes)
+				: undefined,
 		});
 	}
 
 	/**
 	 * Connect to the WebSocket server
+	 * Resolves once connected (automatic retries included). Rejects when the
+	 * client gives up, disconnect() is called, or connectTimeout elapses.
 	 */
-	connect(): void {
-		if (this.state === "connected" || this.state === "connecting") {
-			this.log("Already connected or connecting");
-			return;
+	connect(): Promise<void> {
+		if (this.state === "connected") {
+			this.log("Already connected");
+			return Promise.resolve();
+		}
+
+		if (this.pendingConnect) {
+			this.log("Already connecting");
+			return this.pendingConnect.promise;
 		}
 
+		const promise = this.createPendingConnect();
+
 		this.manualDisconnect = false;
+		this.authRetried = false;
+		this.reconnectAttempts = 0;
+		this.backoff.reset();
 		this.state = "connecting";
-		this.transport.connect();
+		this.watchEnvironment();
+		void this.openTransport();
+
+		return promise;
 	}
 
 	/**
@@ -150,271 +515,1713 @@ export class Sockeon {
 	 */
 	disconnect(): void {
 		this.manualDisconnect = true;
+		this.connectGeneration++;
 		this.clearReconnectTimer();
-		this.clearHeartbeatTimer();
+		this.stopProbe();
+		this.switchingEndpoint = false;
+		this.failBackClose = null;
+		for (const held of this.limiter?.clear() ?? []) {
+			if (held.id !== undefined) {
+				this.acks.reject(
+					held.id,
+					new Error("Rate limited message was discarded by disconnect()"),
+				);
+			}
+		}
+		this.coalescer.clear();
+		this.networkPaused = false;
+		this.unwatchEnvironment?.();
+		this.unwatchEnvironment = null;
+		this.heartbeat.stop();
+		this.stats?.endOutage();
+		this.settleConnect(
+			new Error("Connection aborted: disconnect() was called"),
+		);
 
 		if (this.state !== "disconnected") {
 			this.state = "closing";
 			this.transport.disconnect(1000, "Client disconnect");
+
+			// No socket left to report the close (e.g. waiting to reconnect)
+			if (this.state === "closing" && !this.transport.isConnected()) {
+				this.handleDisconnect(1000, "Client disconnect");
+			}
+		}
+	}
+
+	/**
+	 * Create the promise returned by connect()
+	 */
+	private createPendingConnect(): Promise<void> {
+		let resolve!: () => void;
+		let reject!: (error: Error) => void;
+		const promise = new Promise<void>((res, rej) => {
+			resolve = res;
+			reject = rej;
+		});
+
+		// Callers that ignore the result must not trigger unhandled rejections
+		promise.catch(() => {});
+
+		const { connectTimeout } = this.options;
+		const timer =
+			connectTimeout > 0
+				? setTimeout(() => {
+						this.log(`Connection timeout after ${connectTimeout}ms`);
+						this.settleConnect(
+							new Error(`Connection timeout after ${connectTimeout}ms`),
+						);
+						this.disconnect();
+					}, connectTimeout)
+				: null;
+
+		this.pendingConnect = { promise, resolve, reject, timer };
+		return promise;
+	}
+
+	/**
+	 * Resolve or reject the promise returned by connect()
+	 */
+	private settleConnect(error?: Error): void {
+		const pending = this.pendingConnect;
+		if (!pending) {
+			return;
+		}
+
+		this.pendingConnect = null;
+		if (pending.timer !== null) {
+			clearTimeout(pending.timer);
+		}
+
+		if (error) {
+			pending.reject(error);
+		} else {
+			pending.resolve();
 		}
 	}
 
+	/**
+	 * Replace authentication credentials
+	 * Takes effect on the next connect or reconnect; the current connection
+	 * is left untouched.
+	 */
+	setAuth(auth: AuthConfig): void {
+		this.options.auth = this.normalizeAuth(auth);
+		this.authRetried = false;
+		this.transport.setAuth?.(this.options.auth);
+		this.log("Authentication updated");
+	}
+
 	/**
 	 * Register event handler
 	 */
-	on(event: string, handler: EventHandler): void {
-		this.events.on(event, handler);
+	on<E extends EventNames<ListenEvents<ServerEvents>> | "*">(
+		event: E,
+		handler: EventListener<ListenEvents<ServerEvents>, E>,
+	): void {
+		this.root.on(event, handler);
 	}
 
 	/**
 	 * Register one-time event handler
 	 */
-	once(event: string, handler: EventHandler): void {
-		this.events.once(event, handler);
+	once<E extends EventNames<ListenEvents<ServerEvents>> | "*">(
+		event: E,
+		handler: EventListener<ListenEvents<ServerEvents>, E>,
+	): void {
+		this.root.once(event, handler);
 	}
 
 	/**
 	 * Remove event handler
 	 */
-	off(event: string, handler?: EventHandler): void {
-		this.events.off(event, handler);
+	off<E extends EventNames<ListenEvents<ServerEvents>> | "*">(
+		event: E,
+		handler?: EventListener<ListenEvents<ServerEvents>, E>,
+	): void {
+		this.root.off(event, handler);
 	}
 
 	/**
-	 * Emit event to server
-	 * Validates event name and data structure per Sockeon protocol
+	 * Wait for the next occurrence of an event
+	 * Resolves with its payload; rejects on timeout or when the signal aborts.
+	 *
+	 * @example
+	 * ```ts
+	 * const { user } = await socket.waitFor('user.joined', {
+	 *   timeout: 5000,
+	 *   filter: (data) => data.room === 'lobby',
+	 * });
+	 * ```
 	 */
-	emit(event: string, data: Record<string, unknown> | unknown[] = {}): void {
-		if (this.state !== "connected") {
-			throw new Error("Cannot emit: WebSocket is not connected");
-		}
+	waitFor<E extends EventNames<ListenEvents<ServerEvents>> | "*">(
+		event: E,
+		options: WaitForOptions<EventPayload<ListenEvents<ServerEvents>, E>> = {},
+	): Promise<EventPayload<ListenEvents<ServerEvents>, E>> {
+		const { timeout = 0, filter, signal } = options;
 
-		// Validate event name format (alphanumeric + ._- only)
-		if (!/^[a-zA-Z0-9._-]+$/.test(event)) {
-			throw new Error(
-				"Invalid event name: only alphanumeric characters, dots, underscores, and hyphens are allowed",
-			);
-		}
+		return new Promise((resolve, reject) => {
+			if (signal?.aborted) {
+				reject(signal.reason ?? new Error("waitFor aborted"));
+				return;
+			}
 
-		// Ensure data is object or array
-		if (typeof data !== "object" || data === null) {
-			throw new Error("Data must be an object or array");
-		}
+			let timer: TimerHandle | null = null;
 
-		const message: SockeonMessage = { event, data };
-		this.transport.send(message);
-	}
+			const cleanup = () => {
+				this.root.off(event, handler);
+				signal?.removeEventListener("abort", onAbort);
+				if (timer !== null) {
+					clearTimeout(timer);
+				}
+			};
 
-	/**
-	 * Join a room in the current namespace
-	 */
-	joinRoom(room: string): void {
-		if (this.state !== "connected") {
-			throw new Error("Cannot join room: not connected");
-		}
+			const handler: EventListener<ListenEvents<ServerEvents>, E> = (data) => {
+				try {
+					if (filter && !filter(data)) {
+						return;
+					}
+				} catch (error) {
+					cleanup();
+					reject(error);
+					return;
+				}
+
+				cleanup();
+				resolve(data);
+			};
 
-		this.rooms.add(room);
-		this.emit("join_room", { room, namespace: this.options.namespace });
-		this.log(`Joined room: ${room}`);
+			const onAbort = () => {
+				cleanup();
+				reject(signal?.reason ?? new Error("waitFor aborted"));
+			};
+
+			this.root.on(event, handler);
+			signal?.addEventListener("abort", onAbort);
+
+			if (timeout > 0) {
+				timer = setTimeout(() => {
+					cleanup();
+					reject(
+						new Error(`Timeout waiting for '${event}' after ${timeout}ms`),
+					);
+				}, timeout);
+			}
+		});
 	}
 
 	/**
-	 * Leave a room in the current namespace
+	 * Consume an event as an async iterator
+	 * The stream ends on disconnect or when the signal aborts.
+	 *
+	 * @example
+	 * ```ts
+	 * for await (const tick of socket.stream('price.tick', { highWaterMark: 500 })) {
+	 *   await process(tick);
+	 * }
+	 * ```
 	 */
-	leaveRoom(room: string): void {
-		if (this.state !== "connected") {
-			throw new Error("Cannot leave room: not connected");
-		}
-
-		this.rooms.delete(room);
-		this.emit("leave_room", { room, namespace: this.options.namespace });
-		this.log(`Left room: ${room}`);
+	stream<E extends EventNames<ListenEvents<ServerEvents>> | "*">(
+		event: E,
+		options: StreamOptions = {},
+	): EventStream<EventPayload<ListenEvents<ServerEvents>, E>> {
+		return new EventStream(this.createEventSource(event), options);
 	}
 
 	/**
-	 * Get current rooms
+	 * Consume an event as an Observable (RxJS compatible)
+	 * Completes on disconnect.
+	 *
+	 * @example
+	 * ```ts
+	 * from(socket.observe('price.tick')).pipe(throttleTime(1000)).subscribe(render);
+	 * ```
 	 */
-	getRooms(): string[] {
-		return Array.from(this.rooms);
+	observe<E extends EventNames<ListenEvents<ServerEvents>> | "*">(
+		event: E,
+	): EventObservable<EventPayload<ListenEvents<ServerEvents>, E>> {
+		return new EventObservable(this.createEventSource(event));
 	}
 
 	/**
-	 * Get connection info
+	 * Event source for streams: values from `event`, completion on disconnect
 	 */
-	getConnectionInfo(): ConnectionInfo {
-		return {
-			state: this.state,
-			url: this.options.url,
-			namespace: this.options.namespace,
-			connectedAt: this.connectedAt,
-			reconnectAttempts: this.reconnectAttempts,
-			isReconnecting: this.state === "reconnecting",
+	private createEventSource<
+		E extends EventNames<ListenEvents<ServerEvents>> | "*",
+	>(event: E): EventSource<EventPayload<ListenEvents<ServerEvents>, E>> {
+		return (next, complete) => {
+			const onDisconnect = () => complete();
+
+			this.root.on(event, next);
+			this.events.on("disconnect", onDisconnect);
+
+			return () => {
+				this.root.off(event, next);
+				this.events.off("disconnect", onDisconnect);
+			};
 		};
 	}
 
 	/**
-	 * Get current connection state
+	 * Emit event to server
+	 * Validates event name and data structure per Sockeon protocol.
+	 * When the outbound queue is enabled, emits made while not connected
+	 * are buffered and flushed on the next successful connection.
+	 * Returns what happened to the message and whether the caller should
+	 * wait for 'drain' before emitting more.
 	 */
-	getState(): ConnectionState {
-		return this.state;
+	emit<E extends EventNames<ClientEvents>>(
+		event: E,
+		data?: ClientEvents[E],
+	): EmitResult {
+		return this.emitMessage(this.createMessage(event, data ?? {}));
 	}
 
 	/**
-	 * Check if connected
+	 * Emit the latest value of a high-frequency event (cursor, typing, slider)
+	 * Sends at most one message per interval for each event (and key), always
+	 * the most recent payload. Depending on the emitLatest.onDisconnect option,
+	 * values emitted or pending while disconnected are dropped or held and
+	 * sent on reconnect.
+	 *
+	 * @example
+	 * ```ts
+	 * editor.on('cursor', (position) => {
+	 *   socket.emitLatest('doc.cursor', { docId, position }, { key: docId, interval: 50 });
+	 * });
+	 * ```
 	 */
-	isConnected(): boolean {
-		return this.state === "connected";
+	emitLatest<E extends EventNames<ClientEvents>>(
+		event: E,
+		data?: ClientEvents[E],
+		options: EmitLatestOptions = {},
+	): void {
+		this.pushLatest(this.options.namespace, event, data ?? {}, options);
 	}
 
 	/**
-	 * Handle successful connection
+	 * Register incoming and/or outgoing message middleware
+	 * Middlewares run in registration order and may be async. Returns a
+	 * function that removes them.
+	 *
+	 * @example
+	 * ```ts
+	 * socket.use({
+	 *   outgoing: (message) => ({ ...message, data: { ...message.data, traceId: newTraceId() } }),
+	 *   incoming: async (message) => (isStale(message) ? null : message),
+	 * });
+	 * ```
 	 */
-	private handleConnect(): void {
-		this.state = "connected";
-		this.connectedAt = Date.now();
-		this.reconnectAttempts = 0;
-		this.clearReconnectTimer();
+	use(middleware: MiddlewareConfig): () => void {
+		const removers: Array<() => void> = [];
 
-		// Start heartbeat if enabled
-		if (this.options.heartbeat.enabled) {
-			this.startHeartbeat();
+		if (middleware.incoming) {
+			removers.push(this.incoming.add(middleware.incoming));
+		}
+		if (middleware.outgoing) {
+			removers.push(this.outgoing.add(middleware.outgoing));
 		}
 
-		this.log("Connected to Sockeon server");
-		this.events.emit("connect", {
-			namespace: this.options.namespace,
-			timestamp: this.connectedAt,
-		});
+		return () => {
+			for (const remove of removers) {
+				remove();
+			}
+		};
 	}
 
 	/**
-	 * Handle incoming message from server
+	 * Register per-event payload schemas
+	 * Invalid incoming messages go to 'validation_error' instead of handlers;
+	 * invalid outgoing payloads make emit() throw. Returns a function that
+	 * removes the schemas.
+	 *
+	 * @example
+	 * ```ts
+	 * socket.registerSchemas({
+	 *   incoming: { 'chat.message': { user: 'string', body: 'string' } },
+	 *   outgoing: { 'chat.send': { body: 'string', 'attachments?': ['binary'] } },
+	 * });
+	 * ```
 	 */
-	private handleMessage(message: SockeonMessage): void {
-		const { event, data } = message;
+	registerSchemas(schemas: SchemaConfig): () => void {
+		const removers: Array<() => void> = [];
 
-		this.log(`Received event: ${event}`, data);
-		this.events.emit(event, data);
+		if (schemas.incoming) {
+			removers.push(this.incomingSchemas.add(schemas.incoming));
+		}
+		if (schemas.outgoing) {
+			removers.push(this.outgoingSchemas.add(schemas.outgoing));
+		}
+
+		return () => {
+			for (const remove of removers) {
+				remove();
+			}
+		};
 	}
 
 	/**
-	 * Handle disconnection
+	 * Get a client for another namespace over the same connection
+	 * Each namespace has its own handlers and rooms; incoming messages are
+	 * routed by their `namespace` field.
 	 */
-	private handleDisconnect(code: number, reason: string): void {
-		this.clearHeartbeatTimer();
-		const wasConnected = this.state === "connected";
-
-		this.state = "disconnected";
-		this.connectedAt = null;
-		this.rooms.clear();
-
-		this.log(`Disconnected (code: ${code}, reason: ${reason})`);
-
-		if (wasConnected) {
-			this.events.emit("disconnect", { code, reason });
+	of<
+		S extends EventsMap = DefaultServerEvents,
+		C extends ClientEventsMap<C> = DefaultClientEvents,
+	>(namespace: string): NamespaceClient<S, C> {
+		if (!namespace.startsWith("/")) {
+			throw new Error("Invalid namespace: must start with '/'");
 		}
 
-		// Attempt reconnection if not manual disconnect
-		if (!this.manualDisconnect && this.options.reconnect.enabled) {
-			this.scheduleReconnect();
-		}
+		return (
+			(this.namespaces.get(namespace) as Namespace<S, C> | undefined) ??
+			this.createNamespace<S, C>(
+				namespace,
+				new EventEmitter(this.options.debug),
+			)
+		);
 	}
 
 	/**
-	 * Handle transport error
+	 * Create and register a namespace client
 	 */
-	private handleError(error: Error): void {
-		this.log("Transport error:", error);
-		this.events.emit("error", {
-			message: error.message,
-			timestamp: Date.now(),
-		});
+	private createNamespace<S extends EventsMap, C extends ClientEventsMap<C>>(
+		name: string,
+		events: NamespaceEvents,
+	): Namespace<S, C> {
+		const namespace = new Namespace<S, C>(
+			name,
+			{
+				emit: (target, event, data) =>
+					this.emitMessage(this.createNamespacedMessage(target, event, data)),
+				emitLatest: (target, event, data, options) =>
+					this.pushLatest(target, event, data, options),
+				send: (target, event, data) =>
+					this.sendMessage(this.createNamespacedMessage(target, event, data)),
+				request: (target, event, data) =>
+					this.requestMessage(
+						this.createNamespacedMessage(target, event, data),
+						this.options.ackTimeout,
+					),
+				isConnected: () => this.isConnected(),
+			},
+			events,
+			{
+				confirmRooms: this.options.confirmRooms,
+				presence: this.options.presence,
+			},
+			this.options.debug,
+		);
+
+		this.namespaces.set(name, namespace);
+		return namespace;
 	}
 
 	/**
-	 * Handle pong response
+	 * Emit event to server and wait for its reply
+	 * The message is tagged with a correlation id; the promise resolves with
+	 * the data of the server reply carrying the same id, and rejects on
+	 * timeout, disconnect, or a server 'error' event for that id.
+	 * Rate limits apply as for emit(); a request the limiter drops rejects.
 	 */
-	private handlePong(): void {
-		this.log("Pong received");
+	emitWithAck<
+		T = unknown,
+		E extends EventNames<ClientEvents> = EventNames<ClientEvents>,
+	>(event: E, data?: ClientEvents[E], options: AckOptions = {}): Promise<T> {
+		return this.requestMessage<T>(
+			this.createMessage(event, data ?? {}),
+			options.timeout ?? this.options.ackTimeout,
+			true,
+		);
 	}
 
 	/**
-	 * Schedule reconnection attempt
+	 * Send a message tagged with a correlation id and wait for the reply
+	 * Protocol requests (room membership) skip the rate limiter.
 	 */
-	private scheduleReconnect(): void {
-		const { maxAttempts, delay, maxDelay, factor } = this.options.reconnect;
+	private requestMessage<T>(
+		message: SockeonMessage,
+		timeout: number,
+		rateLimited: boolean = false,
+	): Promise<T> {
+		const id = this.acks.nextId();
+		message.id = id;
 
-		// Check if max attempts reached
-		if (maxAttempts > 0 && this.reconnectAttempts >= maxAttempts) {
-			this.log("Max reconnection attempts reached");
-			this.events.emit("reconnect_failed", {
-				attempts: this.reconnectAttempts,
-				maxAttempts,
-			});
-			return;
+		const promise = this.acks.register<T>(id, message.event, timeout);
+
+		try {
+			if (!rateLimited) {
+				this.sendMessage(message);
+			} else if (this.emitMessage(message).status === "dropped") {
+				this.acks.reject(
+					id,
+					new Error(`Message was dropped: '${message.event}'`),
+				);
+			}
+		} catch (error) {
+			this.acks.reject(id, error as Error);
 		}
 
-		// Calculate delay with exponential backoff
-		const currentDelay = Math.min(
-			delay * factor ** this.reconnectAttempts,
-			maxDelay,
-		);
+		return promise;
+	}
 
-		this.reconnectAttempts++;
-		this.state = "reconnecting";
+	/**
+	 * Build a protocol message
+	 * Validates event name and data structure per Sockeon protocol
+	 */
+	private createMessage(event: string, data: MessageData): SockeonMessage {
+		// Validate event name format (alphanumeric + ._- only)
+		if (!/^[a-zA-Z0-9._-]+$/.test(event)) {
+			throw new Error(
+				"Invalid event name: only alphanumeric characters, dots, underscores, and hyphens are allowed",
+			);
+		}
 
-		this.log(
-			`Reconnecting in ${currentDelay}ms (attempt ${this.reconnectAttempts})`,
-		);
-		this.events.emit("reconnect_attempt", {
-			attempt: this.reconnectAttempts,
-			delay: currentDelay,
-		});
+		// Ensure data is object or array
+		if (typeof data !== "object" || data === null) {
+			throw new Error("Data must be an object or array");
+		}
 
-		this.reconnectTimer = window.setTimeout(() => {
-			this.log(`Reconnection attempt ${this.reconnectAttempts}`);
-			this.transport.connect();
-		}, currentDelay);
+		// Validate against the event's schema (schemas may transform data)
+		const result = this.outgoingSchemas.validate(event, data);
+		if (!result.valid) {
+			throw new Error(
+				`Invalid payload for event '${event}': ${formatIssues(result.issues)}`,
+			);
+		}
+
+		return { event, data: result.value as MessageData };
 	}
 
 	/**
-	 * Clear reconnect timer
+	 * Build a protocol message tagged with its namespace
 	 */
-	private clearReconnectTimer(): void {
-		if (this.reconnectTimer !== null) {
-			clearTimeout(this.reconnectTimer);
-			this.reconnectTimer = null;
+	private createNamespacedMessage(
+		namespace: string,
+		event: string,
+		data: MessageData,
+	): SockeonMessage {
+		const message = this.createMessage(event, data);
+		if (namespace !== this.options.namespace) {
+			message.namespace = namespace;
 		}
+		return message;
 	}
 
 	/**
-	 * Start heartbeat mechanism
+	 * Send an emitted message through the rate limiter
+	 * The status reflects the outgoing middleware when it completes right
+	 * away; while async middleware still runs, the message counts as sent
+	 * (or queued, when offline).
 	 */
-	private startHeartbeat(): void {
-		this.clearHeartbeatTimer();
+	private emitMessage(message: SockeonMessage): EmitResult {
+		// Without an outbound queue, offline emits fail up front
+		if (!this.canDispatch()) {
+			throw new Error("Cannot emit: WebSocket is not connected");
+		}
 
-		const { interval } = this.options.heartbeat;
-		this.heartbeatTimer = window.setInterval(() => {
-			if (this.state === "connected") {
-				this.transport.sendPing();
-			}
-		}, interval);
+		const limited = this.limiter?.submit(message) ?? "accepted";
+
+		let status: EmitStatus;
+		if (limited === "accepted") {
+			status =
+				this.sendMessage(message) ??
+				(this.state === "connected" ? "sent" : "queued");
+		} else {
+			status = limited;
+		}
 
-		this.log(`Heartbeat started (interval: ${interval}ms)`);
+		return {
+			status,
+			backpressure: this.flowControl?.isBackpressured() ?? false,
+		};
 	}
 
 	/**
-	 * Clear heartbeat timer
+	 * Hand a latest-value emit to the coalescer
 	 */
-	private clearHeartbeatTimer(): void {
-		if (this.heartbeatTimer !== null) {
-			clearInterval(this.heartbeatTimer);
-			this.heartbeatTimer = null;
+	private pushLatest(
+		namespace: string,
+		event: string,
+		data: MessageData,
+		options: EmitLatestOptions,
+	): void {
+		const message = this.createNamespacedMessage(namespace, event, data);
+
+		if (
+			this.state !== "connected" &&
+			this.options.emitLatest.onDisconnect === "drop"
+		) {
+			this.log(`Latest value dropped while disconnected: ${event}`);
+			return;
 		}
+
+		this.coalescer.push(
+			JSON.stringify([namespace, event, options.key ?? null]),
+			message,
+			options.interval ?? this.options.emitLatest.interval,
+			options.leading ?? true,
+		);
 	}
 
 	/**
-	 * Debug logging
+	 * Emit a value flushed by the coalescer
+	 */
+	private releaseLatest(message: SockeonMessage): void {
+		try {
+			this.emitMessage(message);
+		} catch (error) {
+			this.handleError(error as Error);
+		}
+	}
+
+	/**
+	 * Send a message released by the rate limiter
+	 */
+	private releaseMessage(message: SockeonMessage): void {
+		try {
+			this.sendMessage(message);
+		} catch (error) {
+			this.handleError(error as Error);
+		}
+	}
+
+	/**
+	 * Run a message through outgoing middleware, then dispatch it
+	 * Returns what happened to the message, or null while async middleware
+	 * is still running.
+	 */
+	private sendMessage(message: SockeonMessage): EmitStatus | null {
+		if (this.delivery) {
+			message.seq = this.delivery.nextSeq();
+		}
+
+		let status: EmitStatus | null = null;
+		this.outgoing.run(message, {
+			deliver: (processed) => {
+				status = this.dispatch(processed);
+				if (status === "sent" && processed.id !== undefined) {
+					this.acks.markSent(processed.id);
+				}
+			},
+			drop: (dropped) => {
+				status = "dropped";
+				this.log(`Outgoing event dropped by middleware: ${dropped.event}`);
+				if (dropped.id !== undefined) {
+					this.acks.reject(
+						dropped.id,
+						new Error("Message was dropped by middleware"),
+					);
+				}
+			},
+			fail: (error, failed) => {
+				status = "dropped";
+				this.handleMiddlewareError("outgoing", error, failed);
+			},
+		});
+		return status;
+	}
+
+	/**
+	 * Check if a message can be sent now or buffered in the outbound queue
+	 */
+	private canDispatch(): boolean {
+		return (
+			this.state === "connected" ||
+			(this.options.queue.enabled && this.state !== "closing")
+		);
+	}
+
+	/**
+	 * Send a message, or buffer it in the outbound queue when offline
+	 * Returns whether it was sent, queued or dropped by a full queue.
+	 */
+	private dispatch(message: SockeonMessage): EmitStatus {
+		if (!this.canDispatch()) {
+			throw new Error("Cannot emit: WebSocket is not connected");
+		}
+
+		if (this.state !== "connected") {
+			if (!this.queue.enqueue(message)) {
+				return "dropped";
+			}
+
+			this.log(`Queued event: ${message.event}`);
+			this.events.emit("queued", {
+				event: message.event,
+				data: message.data,
+				size: this.queue.size(),
+			});
+			return "queued";
+		}
+
+		this.transmit(message);
+		this.flowControl?.check();
+		return "sent";
+	}
+
+	/**
+	 * Write a message to the transport
+	 */
+	private transmit(message: SockeonMessage): void {
+		this.transport.send(message);
+		this.stats?.recordSent(message);
+	}
+
+	/**
+	 * Get number of messages waiting in the outbound queue
+	 */
+	getQueueSize(): number {
+		return this.queue.size();
+	}
+
+	/**
+	 * Discard all messages waiting in the outbound queue
+	 * Their emitWithAck() promises reject right away and 'dropped' is emitted
+	 * for each one.
+	 */
+	clearQueue(): void {
+		this.queue.clear();
+	}
+
+	/**
+	 * Join a room in the current namespace
+	 * Resolves once the server confirms the join and rejects if it is denied
+	 * or not confirmed within ackTimeout (resolves right away with
+	 * confirmRooms: false). Rejects if not connected.
+	 */
+	joinRoom(room: string): Promise<RoomInfo> {
+		return this.root.joinRoom(room);
+	}
+
+	/**
+	 * Leave a room in the current namespace
+	 * Resolves once the server confirms (right away with confirmRooms: false).
+	 * Rejects if not connected.
+	 */
+	leaveRoom(room: string): Promise<void> {
+		return this.root.leaveRoom(room);
+	}
+
+	/**
+	 * Get rooms in a membership state (default: joined)
+	 */
+	getRooms(state: RoomState = "joined"): string[] {
+		return this.root.getRooms(state);
+	}
+
+	/**
+	 * Get details of current rooms (name, namespace, joinedAt, state)
+	 */
+	getRoomInfo(): RoomInfo[] {
+		return this.root.getRoomInfo();
+	}
+
+	/**
+	 * Get a handle for a room in the current namespace, joining it if needed
+	 * The handle's listeners only see events whose data is tagged with the
+	 * room, and its emits are tagged with it. Its listeners are removed when
+	 * the room is left or forgotten (disconnect()).
+	 *
+	 * @example
+	 * ```ts
+	 * const lobby = socket.room('lobby');
+	 * lobby.on('chat.message', (data) => render(data));
+	 * lobby.emit('chat.send', { body: 'Hi' }); // data.room === 'lobby'
+	 * lobby.leave();
+	 * ```
+	 */
+	room(name: string): Room<ListenEvents<ServerEvents>, ClientEvents> {
+		return this.root.room(name);
+	}
+
+	/**
+	 * Get the live presence list of a room in the current namespace
+	 * Members come from the server's presence events; publish this client's
+	 * own metadata with track().
+	 *
+	 * @example
+	 * ```ts
+	 * const lobby = socket.presence('lobby');
+	 * lobby.track({ status: 'online', device: 'web' });
+	 * lobby.on('join', ({ member }) => console.log(`${member.id} joined`));
+	 * ```
+	 */
+	presence(room: string): Presence {
+		return this.root.presence(room);
+	}
+
+	/**
+	 * Get connection info
+	 */
+	getConnectionInfo(): ConnectionInfo {
+		return {
+			state: this.state,
+			url: this.activeUrl,
+			namespace: this.options.namespace,
+			connectedAt: this.connectedAt,
+			reconnectAttempts: this.reconnectAttempts,
+			isReconnecting: this.state === "reconnecting",
+			latency: this.heartbeat.getLatency(),
+			lastSeenId: this.delivery?.getLastSeenId() ?? null,
+		};
+	}
+
+	/**
+	 * Get connection statistics (null unless the stats option is enabled)
+	 */
+	getStats(): ConnectionStats | null {
+		return this.stats?.snapshot() ?? null;
+	}
+
+	/**
+	 * Reset connection statistics, starting a new measurement
+	 */
+	resetStats(): void {
+		this.stats?.reset();
+	}
+
+	/**
+	 * Get the health of every failover endpoint (empty with resolveUrl)
+	 */
+	getEndpoints(): EndpointHealth[] {
+		return this.endpoints?.getHealth() ?? [];
+	}
+
+	/**
+	 * Get current connection state
+	 */
+	getState(): ConnectionState {
+		return this.state;
+	}
+
+	/**
+	 * Check if connected
+	 */
+	isConnected(): boolean {
+		return this.state === "connected";
+	}
+
+	/**
+	 * Handle successful connection
+	 */
+	private handleConnect(): void {
+		const attempts = this.reconnectAttempts;
+
+		this.state = "connected";
+		this.connectedAt = Date.now();
+		this.reconnectAttempts = 0;
+		this.backoff.reset();
+		this.networkPaused = false;
+		this.failBackClose = null;
+		this.clearReconnectTimer();
+		this.settleConnect();
+		this.endpoints?.recordSuccess(this.activeUrl);
+		this.stats?.recordConnect();
+		this.startProbe();
+		this.startStatsTimer();
+
+		// Start heartbeat if enabled (hidden pages start it once visible)
+		if (this.options.heartbeat.enabled && !this.isHeartbeatSuspended()) {
+			this.heartbeat.start();
+		}
+
+		// Re-join rooms and send messages buffered while offline before anything else
+		const restoring = this.restoreRooms();
+		this.flushQueue();
+		this.coalescer.resume();
+		this.namespaces.forEach((namespace) => namespace.resyncPresence());
+
+		this.log("Connected to Sockeon server");
+		this.events.emit("connect", {
+			namespace: this.options.namespace,
+			timestamp: this.connectedAt,
+		});
+
+		if (attempts > 0) {
+			this.events.emit("reconnect", { attempts });
+		}
+
+		void restoring.then((restored) => {
+			if (restored.restored.length > 0 || restored.failed.length > 0) {
+				this.events.emit("rooms_restored", restored);
+			}
+		});
+	}
+
+	/**
+	 * Replay room joins remembered from the previous connection
+	 * Resolves once every join has been confirmed or refused.
+	 */
+	private restoreRooms(): Promise<RoomsRestoredEventData> {
+		const pending = Array.from(this.namespaces.values(), (namespace) =>
+			namespace.restoreRooms(),
+		);
+
+		return Promise.all(pending).then((results) => {
+			const result: RoomsRestoredEventData = { restored: [], failed: [] };
+			for (const { restored, failed } of results) {
+				result.restored.push(...restored);
+				result.failed.push(...failed);
+			}
+
+			if (result.restored.length > 0 || result.failed.length > 0) {
+				this.log(
+					`Restored ${result.restored.length} room(s), ${result.failed.length} failed`,
+				);
+			}
+
+			return result;
+		});
+	}
+
+	/**
+	 * Handle incoming message from server
+	 */
+	private handleMessage(message: SockeonMessage): void {
+		this.stats?.recordReceived(message);
+
+		// Traffic other than a rejection means the credentials were accepted:
+		// a later expiry may be refreshed again
+		if (this.authRetried && !this.isAuthRejectionMessage(message)) {
+			this.authRetried = false;
+		}
+
+		// Heartbeat replies are handled internally
+		if (
+			this.options.heartbeat.enabled &&
+			message.event === this.options.heartbeat.pongEvent
+		) {
+			this.heartbeat.handlePong();
+			return;
+		}
+
+		// Replayed or redelivered messages are only handled once
+		if (
+			this.delivery &&
+			typeof message.seq === "number" &&
+			!this.delivery.accept(message.seq)
+		) {
+			this.log(
+				`Duplicate message dropped: ${message.event} (seq ${message.seq})`,
+			);
+			return;
+		}
+
+		this.incoming.run(message, {
+			deliver: (processed) => this.routeMessage(processed),
+			drop: (dropped) =>
+				this.log(`Incoming event dropped by middleware: ${dropped.event}`),
+			fail: (error, failed) =>
+				this.handleMiddlewareError("incoming", error, failed),
+		});
+	}
+
+	/**
+	 * Deliver an incoming message to acks, namespaces and handlers
+	 */
+	private routeMessage(message: SockeonMessage): void {
+		const { event, data, id } = message;
+
+		// Replies to emitWithAck() never reach regular handlers
+		if (id !== undefined && this.acks.has(id)) {
+			if (event === "error") {
+				const reason = (data as { message?: unknown }).message;
+				this.acks.reject(
+					id,
+					new Error(typeof reason === "string" ? reason : "Server error"),
+				);
+			} else {
+				this.acks.resolve(id, data);
+			}
+			this.log(`Received ack: ${id}`);
+			return;
+		}
+
+		// Route to the addressed namespace (untagged messages go to the default one)
+		const namespace = message.namespace ?? this.options.namespace;
+		const target = this.namespaces.get(namespace);
+		if (!target) {
+			this.log(`Ignoring event for unknown namespace: ${message.namespace}`);
+			return;
+		}
+
+		// Malformed payloads never reach handlers
+		const result = this.incomingSchemas.validate(event, data);
+		if (!result.valid) {
+			this.log(`Invalid payload for event: ${event}`, result.issues);
+			this.events.emit("validation_error", {
+				event,
+				namespace,
+				data,
+				issues: result.issues,
+			});
+			return;
+		}
+
+		this.log(`Received event: ${event}`, data);
+		target.receive(event, result.value as MessageData);
+
+		// Server rejected our credentials: close and go through the refresh cycle
+		if (this.state === "connected" && this.isAuthRejectionMessage(message)) {
+			const { code, message: reason } = data as Partial<SockeonError>;
+			this.authRejection = {
+				code,
+				message:
+					typeof reason === "string" ? reason : "Authentication rejected",
+			};
+			this.terminateTransport(
+				CLOSE_CODES.AUTH_REJECTED,
+				"Authentication rejected",
+			);
+		}
+	}
+
+	/**
+	 * Handle disconnection
+	 */
+	private handleDisconnect(code: number, reason: string): void {
+		// Late close of a transport already released by disconnect()
+		if (this.manualDisconnect && this.state === "disconnected") {
+			return;
+		}
+
+		this.heartbeat.stop();
+		this.stopStatsTimer();
+		this.flowControl?.reset();
+		this.stopProbe();
+		if (!this.manualDisconnect && !this.switchingEndpoint) {
+			this.endpoints?.recordFailure(this.activeUrl);
+		}
+		if (
+			this.manualDisconnect ||
+			this.options.emitLatest.onDisconnect === "drop"
+		) {
+			this.coalescer.clear();
+		} else {
+			this.coalescer.pause();
+		}
+		const wasConnected = this.state === "connected";
+		this.stats?.recordDisconnect(
+			code,
+			wasConnected,
+			!this.manualDisconnect &&
+				(this.switchingEndpoint || this.options.reconnect.enabled),
+		);
+
+		this.state = "disconnected";
+		this.connectedAt = null;
+		this.lastCloseCode = code;
+
+		this.namespaces.forEach((namespace) =>
+			namespace.suspendPresence(this.manualDisconnect),
+		);
+
+		// Keep room membership across unexpected drops so it can be restored
+		if (this.manualDisconnect || !this.options.rejoinRooms) {
+			this.namespaces.forEach((namespace) => namespace.resetRooms());
+		}
+
+		// Acks sent before failing back keep waiting (the primary may reply)
+		if (!this.switchingEndpoint) {
+			this.acks.rejectSent(
+				new Error(`Disconnected before ack was received (code: ${code})`),
+			);
+		}
+
+		this.log(`Disconnected (code: ${code}, reason: ${reason})`);
+
+		// Failing back is not a disconnect (streams stay open) unless it fails
+		if (wasConnected && this.switchingEndpoint) {
+			this.failBackClose = { code, reason };
+		} else if (wasConnected) {
+			this.events.emit("disconnect", { code, reason });
+		} else if (this.failBackClose) {
+			this.events.emit("disconnect", this.failBackClose);
+			this.failBackClose = null;
+		}
+
+		if (this.manualDisconnect) {
+			return;
+		}
+
+		// Failing back to the primary: reconnect right away
+		if (this.switchingEndpoint) {
+			this.switchingEndpoint = false;
+			this.state = "reconnecting";
+			void this.openTransport();
+			return;
+		}
+
+		// Credentials rejected: refresh once instead of retrying the same token
+		const rejection =
+			this.authRejection ??
+			(this.isAuthRejection(code) ? { code, message: reason } : null);
+		this.authRejection = null;
+
+		if (rejection) {
+			this.handleAuthRejection(rejection.code, rejection.message);
+			return;
+		}
+
+		this.authRetried = false;
+
+		// Attempt reconnection
+		if (this.options.reconnect.enabled) {
+			this.scheduleReconnect();
+		} else {
+			this.settleConnect(
+				new Error(`Connection closed (code: ${code}, reason: ${reason})`),
+			);
+		}
+	}
+
+	/**
+	 * Open the transport, picking the endpoint and fetching a fresh token
+	 * first when a resolver or token provider is set
+	 */
+	private async openTransport(): Promise<void> {
+		this.applyResumeToken();
+
+		const { auth, resolveUrl } = this.options;
+		if (!auth?.getToken && !resolveUrl) {
+			this.useEndpoint(this.endpoints?.select() ?? this.options.url);
+			this.transport.connect();
+			return;
+		}
+
+		const generation = ++this.connectGeneration;
+
+		let url: string;
+		try {
+			url = resolveUrl
+				? await resolveUrl({
+						attempt: this.reconnectAttempts,
+						previousUrl: this.activeUrl || null,
+						closeCode: this.lastCloseCode,
+					})
+				: (this.endpoints?.select() ?? this.options.url);
+		} catch (error) {
+			if (generation !== this.connectGeneration) {
+				return;
+			}
+
+			this.log("URL resolver failed:", error);
+			this.handleError(
+				new Error(`Failed to resolve URL: ${(error as Error).message}`),
+			);
+			this.abortOpen(error as Error);
+			return;
+		}
+
+		let token: string | undefined;
+		if (auth?.getToken) {
+			try {
+				token = await auth.getToken();
+			} catch (error) {
+				if (generation !== this.connectGeneration) {
+					return;
+				}
+
+				this.log("Token provider failed:", error);
+				this.events.emit("auth_error", {
+					message: `Failed to get auth token: ${(error as Error).message}`,
+					timestamp: Date.now(),
+				});
+				this.abortOpen(error as Error);
+				return;
+			}
+		}
+
+		// disconnect() or another connect attempt happened meanwhile
+		if (generation !== this.connectGeneration) {
+			return;
+		}
+
+		this.useEndpoint(url);
+		if (auth && token !== undefined) {
+			this.transport.setAuth?.({ ...auth, token });
+		}
+		this.transport.connect();
+	}
+
+	/**
+	 * Give up on a connection attempt that failed before the transport opened
+	 */
+	private abortOpen(error: Error): void {
+		this.state = "disconnected";
+
+		if (this.options.reconnect.enabled) {
+			this.scheduleReconnect();
+		} else {
+			this.settleConnect(error);
+		}
+	}
+
+	/**
+	 * Point the transport at an endpoint, reporting the change
+	 */
+	private useEndpoint(url: string): void {
+		if (url === this.activeUrl) {
+			return;
+		}
+
+		const previous = this.activeUrl || null;
+		let reason: EndpointChangeReason = "failover";
+		if (this.options.resolveUrl) {
+			reason = "resolved";
+		} else if (url === this.endpoints?.primary) {
+			reason = "primary";
+		}
+
+		this.activeUrl = url;
+		this.transport.setUrl?.(url);
+		this.log(`Endpoint changed (${reason}): ${url}`);
+		this.events.emit("endpoint_changed", { url, previous, reason });
+	}
+
+	/**
+	 * Probe the primary periodically while connected to a fallback
+	 * Needs a transport factory (or the default transport) to open probes.
+	 */
+	private startProbe(): void {
+		this.stopProbe();
+
+		const { probeInterval } = this.options.failover;
+		if (
+			!this.endpoints ||
+			probeInterval <= 0 ||
+			this.activeUrl === this.endpoints.primary ||
+			typeof this.options.transport === "object"
+		) {
+			return;
+		}
+
+		this.probeTimer = setInterval(
+			() => void this.probePrimary(),
+			probeInterval,
+		);
+	}
+
+	/**
+	 * Stop probing and close a probe in flight
+	 */
+	private stopProbe(): void {
+		if (this.probeTimer !== null) {
+			clearInterval(this.probeTimer);
+			this.probeTimer = null;
+		}
+
+		const probe = this.probe;
+		this.probe = null;
+		probe?.disconnect(CLOSE_CODES.NORMAL, "Probe cancelled");
+	}
+
+	/**
+	 * Open a throwaway connection to the primary; fail back if it opens
+	 * A token provider is asked for a fresh token first, as for every connect.
+	 */
+	private async probePrimary(): Promise<void> {
+		if (this.probe || !this.endpoints) {
+			return;
+		}
+
+		const primary = this.endpoints.primary;
+		const probe = this.createTransport(primary);
+		this.probe = probe;
+
+		const { auth } = this.options;
+		if (auth?.getToken) {
+			let token: string;
+			try {
+				token = await auth.getToken();
+			} catch (error) {
+				if (this.probe === probe) {
+					this.probe = null;
+				}
+				this.log("Token provider failed, skipping probe:", error);
+				return;
+			}
+
+			// Probing was stopped meanwhile
+			if (this.probe !== probe) {
+				return;
+			}
+			probe.setAuth?.({ ...auth, token });
+		}
+
+		probe.on({
+			onOpen: () => {
+				if (this.probe !== probe) {
+					return;
+				}
+
+				this.probe = null;
+				probe.disconnect(CLOSE_CODES.NORMAL, "Probe complete");
+				this.endpoints?.recordSuccess(primary);
+				this.log("Primary endpoint reachable again");
+				this.failBack();
+			},
+			onClose: () => {
+				if (this.probe === probe) {
+					this.probe = null;
+					this.endpoints?.recordFailure(primary);
+				}
+			},
+		});
+
+		this.log(`Probing primary endpoint: ${primary}`);
+		probe.connect();
+	}
+
+	/**
+	 * Close the fallback connection and reconnect to the primary right away
+	 */
+	private failBack(): void {
+		this.stopProbe();
+
+		if (this.state !== "connected") {
+			return;
+		}
+
+		this.switchingEndpoint = true;
+		this.transport.disconnect(
+			CLOSE_CODES.GOING_AWAY,
+			"Switching to primary endpoint",
+		);
+	}
+
+	/**
+	 * Tell the server where to resume from (last seen sequence number)
+	 */
+	private applyResumeToken(): void {
+		const lastSeenId = this.delivery?.getLastSeenId() ?? null;
+		if (lastSeenId === null) {
+			return;
+		}
+
+		this.transport.setQuery?.({
+			...this.options.query,
+			[this.options.delivery.resumeParam]: String(lastSeenId),
+		});
+	}
+
+	/**
+	 * Check if a close code or server error code means the credentials were rejected
+	 */
+	private isAuthRejection(code: number | string | undefined): boolean {
+		if (code === undefined || !this.options.auth) {
+			return false;
+		}
+
+		return this.options.auth.rejectCodes?.includes(code) ?? false;
+	}
+
+	/**
+	 * Check if a message is a server error rejecting the credentials
+	 */
+	private isAuthRejectionMessage(message: SockeonMessage): boolean {
+		if (message.event !== "error") {
+			return false;
+		}
+
+		const { code } = (message.data ?? {}) as Partial<SockeonError>;
+		return this.isAuthRejection(code);
+	}
+
+	/**
+	 * Handle rejected credentials
+	 * With a token provider, reconnect once right away with a fresh token
+	 * (again only once the server has delivered other traffic, so every expiry
+	 * in a long session is refreshed but a connection rejected right after the
+	 * handshake is not retried forever); otherwise, or if the fresh token is
+	 * rejected too, emit 'auth_error' and stop reconnecting.
+	 */
+	private handleAuthRejection(
+		code: number | string | undefined,
+		message: string,
+	): void {
+		if (this.options.auth?.getToken && !this.authRetried) {
+			this.authRetried = true;
+			this.log("Authentication rejected, retrying with a fresh token");
+			this.state = "reconnecting";
+			void this.openTransport();
+			return;
+		}
+
+		this.log("Authentication rejected, giving up");
+		this.stats?.endOutage();
+		this.events.emit("auth_error", {
+			code,
+			message: message || "Authentication rejected",
+			timestamp: Date.now(),
+		});
+		this.settleConnect(new Error(message || "Authentication rejected"));
+	}
+
+	/**
+	 * Handle transport error
+	 */
+	private handleError(error: Error): void {
+		this.log("Transport error:", error);
+
+		const data = { message: error.message, timestamp: Date.now() };
+		this.events.emit("error", data);
+
+		if (this.state === "reconnecting") {
+			this.events.emit("reconnect_error", data);
+		}
+	}
+
+	/**
+	 * Report a middleware failure
+	 * Failed emitWithAck() messages reject their promise; everything else is
+	 * surfaced through the 'error' event.
+	 */
+	private handleMiddlewareError(
+		direction: "incoming" | "outgoing",
+		error: Error,
+		message: SockeonMessage,
+	): void {
+		this.log(`${direction} middleware failed for ${message.event}:`, error);
+
+		if (
+			direction === "outgoing" &&
+			message.id !== undefined &&
+			this.acks.reject(message.id, error)
+		) {
+			return;
+		}
+
+		this.events.emit("error", {
+			message: `${direction === "incoming" ? "Incoming" : "Outgoing"} middleware failed: ${error?.message ?? String(error)}`,
+			timestamp: Date.now(),
+			details: { direction, event: message.event, error },
+		});
+	}
+
+	/**
+	 * Send heartbeat ping over the JSON protocol
+	 */
+	private sendPing(timestamp: number): void {
+		if (this.state !== "connected") {
+			return;
+		}
+
+		this.transmit({
+			event: this.options.heartbeat.pingEvent,
+			data: { timestamp },
+		});
+	}
+
+	/**
+	 * Handle missed pong: force-close the dead connection so it reconnects
+	 */
+	private handleHeartbeatTimeout(): void {
+		this.log("Heartbeat timeout, closing connection");
+		this.terminateTransport(CLOSE_CODES.HEARTBEAT_TIMEOUT, "Heartbeat timeout");
+	}
+
+	/**
+	 * Force-close the transport (falls back to a regular close)
+	 */
+	private terminateTransport(code: number, reason: string): void {
+		if (this.transport.terminate) {
+			this.transport.terminate(code, reason);
+		} else {
+			this.transport.disconnect(code, reason);
+		}
+	}
+
+	/**
+	 * Emit 'stats' periodically while connected (stats.interval > 0)
+	 */
+	private startStatsTimer(): void {
+		const { stats } = this;
+		const { interval } = this.options.stats;
+		if (!stats || interval <= 0 || this.statsTimer !== null) {
+			return;
+		}
+
+		this.statsTimer = setInterval(
+			() => this.events.emit("stats", stats.snapshot()),
+			interval,
+		);
+	}
+
+	private stopStatsTimer(): void {
+		if (this.statsTimer !== null) {
+			clearInterval(this.statsTimer);
+			this.statsTimer = null;
+		}
+	}
+
+	/**
+	 * Handle measured round-trip latency
+	 */
+	private handleLatency(latency: number): void {
+		this.stats?.recordLatency(latency);
+		this.events.emit("latency", { latency, timestamp: Date.now() });
+	}
+
+	/**
+	 * Send all queued messages in order
+	 */
+	private flushQueue(): void {
+		const entries = this.queue.drain();
+		if (entries.length === 0) {
+			return;
+		}
+
+		this.log(`Flushing ${entries.length} queued message(s)`);
+
+		for (let i = 0; i < entries.length; i++) {
+			const { message } = entries[i];
+			try {
+				this.transmit(message);
+				if (message.id !== undefined) {
+					this.acks.markSent(message.id);
+				}
+			} catch (error) {
+				this.log("Failed to flush queue:", error);
+				this.queue.requeue(entries.slice(i));
+				return;
+			}
+		}
+	}
+
+	/**
+	 * Handle a message discarded by the outbound queue
+	 */
+	private handleQueueDrop(entry: QueuedMessage, reason: QueueDropReason): void {
+		const { event, data } = entry.message;
+
+		this.log(`Dropped queued event: ${event} (${reason})`);
+
+		if (entry.message.id !== undefined) {
+			this.acks.reject(
+				entry.message.id,
+				new Error(`Queued message was dropped (${reason})`),
+			);
+		}
+
+		this.events.emit("dropped", {
+			event,
+			data,
+			reason,
+			queuedAt: entry.queuedAt,
+		});
+	}
+
+	/**
+	 * Schedule reconnection attempt
+	 */
+	private scheduleReconnect(): void {
+		const { maxAttempts, closeCodes } = this.options.reconnect;
+		const code = this.lastCloseCode;
+
+		// Retrying is pointless for some close codes (e.g. policy violation)
+		if (code !== null && closeCodes[code] === "stop") {
+			this.stopReconnecting(
+				"close_code",
+				`Connection closed with non-retryable code ${code}`,
+			);
+			return;
+		}
+
+		// Check if max attempts reached
+		if (maxAttempts > 0 && this.reconnectAttempts >= maxAttempts) {
+			this.stopReconnecting(
+				"max_attempts",
+				`Connection failed after ${this.reconnectAttempts} reconnection attempts`,
+			);
+			return;
+		}
+
+		// No point retrying without a network: wait for it to come back
+		if (this.isWaitingForNetwork()) {
+			this.pauseReconnect();
+			return;
+		}
+
+		const currentDelay = this.backoff.next(this.reconnectAttempts + 1, code);
+		if (currentDelay === null) {
+			this.stopReconnecting(
+				"backoff",
+				`Reconnection stopped by backoff strategy after ${this.reconnectAttempts} attempts`,
+			);
+			return;
+		}
+
+		this.reconnectAttempts++;
+		this.state = "reconnecting";
+
+		this.log(
+			`Reconnecting in ${currentDelay}ms (attempt ${this.reconnectAttempts})`,
+		);
+		this.events.emit("reconnect_attempt", {
+			attempt: this.reconnectAttempts,
+			delay: currentDelay,
+		});
+
+		this.reconnectTimer = setTimeout(() => {
+			this.reconnectTimer = null;
+
+			// Went offline without the probe noticing in time: this attempt doesn't count
+			if (this.isWaitingForNetwork()) {
+				this.reconnectAttempts--;
+				this.pauseReconnect();
+				return;
+			}
+
+			this.log(`Reconnection attempt ${this.reconnectAttempts}`);
+			void this.openTransport();
+		}, currentDelay);
+	}
+
+	/**
+	 * Stop retrying until the network comes back
+	 */
+	private pauseReconnect(): void {
+		this.log("Network offline, reconnection paused");
+		this.state = "reconnecting";
+		this.networkPaused = true;
+	}
+
+	/**
+	 * Start a reconnection attempt without waiting for the backoff delay
+	 */
+	private reconnectNow(): void {
+		this.clearReconnectTimer();
+		this.networkPaused = false;
+		this.reconnectAttempts++;
+		this.state = "reconnecting";
+
+		this.log(`Reconnecting now (attempt ${this.reconnectAttempts})`);
+		this.events.emit("reconnect_attempt", {
+			attempt: this.reconnectAttempts,
+			delay: 0,
+		});
+
+		void this.openTransport();
+	}
+
+	/**
+	 * Subscribe to the environment probe (once)
+	 */
+	private watchEnvironment(): void {
+		if (!this.environment || this.unwatchEnvironment) {
+			return;
+		}
+
+		this.unwatchEnvironment = this.environment.subscribe((change) =>
+			this.handleEnvironmentChange(change),
+		);
+	}
+
+	/**
+	 * React to network and visibility changes
+	 */
+	private handleEnvironmentChange(change: EnvironmentChange): void {
+		const { pauseWhenOffline, suspendHeartbeatWhenHidden, verifyConnection } =
+			this.options.environment;
+		const heartbeat = this.options.heartbeat.enabled;
+
+		this.log(`Environment changed: ${change}`);
+
+		switch (change) {
+			case "offline":
+				if (this.state === "reconnecting" && pauseWhenOffline) {
+					// The pending attempt would only fail: don't count it
+					if (this.reconnectTimer !== null) {
+						this.clearReconnectTimer();
+						this.reconnectAttempts = Math.max(0, this.reconnectAttempts - 1);
+					}
+					this.pauseReconnect();
+				} else if (
+					this.state === "connected" &&
+					heartbeat &&
+					verifyConnection
+				) {
+					this.heartbeat.check();
+				}
+				break;
+			case "online":
+				if (
+					this.networkPaused ||
+					(this.state === "reconnecting" && this.reconnectTimer !== null)
+				) {
+					this.reconnectNow();
+				}
+				break;
+			case "hidden":
+				if (this.state === "connected" && suspendHeartbeatWhenHidden) {
+					this.heartbeat.stop();
+				}
+				break;
+			case "visible":
+				if (this.state === "connected" && heartbeat) {
+					this.heartbeat.start();
+					if (verifyConnection) {
+						this.heartbeat.check();
+					}
+				}
+				break;
+		}
+	}
+
+	/**
+	 * Whether reconnect attempts should wait for the network
+	 */
+	private isWaitingForNetwork(): boolean {
+		return (
+			this.environment !== null &&
+			this.options.environment.pauseWhenOffline &&
+			!this.environment.isOnline()
+		);
+	}
+
+	/**
+	 * Whether heartbeats are suspended because the page is hidden
+	 */
+	private isHeartbeatSuspended(): boolean {
+		return (
+			this.environment !== null &&
+			this.options.environment.suspendHeartbeatWhenHidden &&
+			!this.environment.isVisible()
+		);
+	}
+
+	/**
+	 * Give up reconnecting
+	 */
+	private stopReconnecting(
+		reason: ReconnectFailedReason,
+		message: string,
+	): void {
+		this.log(`Reconnection stopped (${reason})`);
+		this.stats?.endOutage();
+		this.events.emit("reconnect_failed", {
+			attempts: this.reconnectAttempts,
+			maxAttempts: this.options.reconnect.maxAttempts,
+			reason,
+			code: this.lastCloseCode,
+		});
+		this.settleConnect(new Error(message));
+	}
+
+	/**
+	 * Clear reconnect timer
+	 */
+	private clearReconnectTimer(): void {
+		if (this.reconnectTimer !== null) {
+			clearTimeout(this.reconnectTimer);
+			this.reconnectTimer = null;
+		}
+	}
+
+	/**
+	 * Debug logging
 	 */
 	private log(...args: unknown[]): void {
 		if (this.options.debug) {
@@ -425,15 +2232,112 @@ export class Sockeon {
 
 // Export types and constants
 export type {
+	AckOptions,
 	AuthConfig,
+	AuthErrorEventData,
+	BinaryData,
+	ClientEventsMap,
+	CloseCodePolicy,
+	ConnectEventData,
 	ConnectionInfo,
 	ConnectionState,
+	ConnectionStats,
+	DefaultClientEvents,
+	DefaultServerEvents,
+	DeliveryConfig,
+	DisconnectEventData,
+	DrainEventData,
+	DroppedEventData,
+	EmitLatestConfig,
+	EmitLatestDisconnectMode,
+	EmitLatestOptions,
+	EmitResult,
+	EmitStatus,
+	EndpointChangedEventData,
+	EndpointChangeReason,
+	EndpointHealth,
+	EnvironmentConfig,
 	EventHandler,
+	EventListener,
+	EventNames,
+	EventPayload,
+	EventsMap,
+	EventStats,
+	FailoverConfig,
+	FlowControlConfig,
 	HeartbeatConfig,
+	LatencyEventData,
+	LatencyStats,
+	ListenEvents,
+	MessageData,
+	Middleware,
+	MiddlewareConfig,
+	NamespaceClient,
+	PresenceConfig,
+	PresenceEventData,
+	PresenceLeaveEventData,
+	PresenceLeaveReason,
+	PresenceMember,
+	PresenceMeta,
+	PresenceSyncEventData,
+	QueueConfig,
+	QueueDropReason,
+	QueueOverflowPolicy,
+	QueuedEventData,
+	RateLimit,
+	RateLimitConfig,
+	RateLimitMode,
+	ReconnectAttemptEventData,
+	ReconnectBackoff,
 	ReconnectConfig,
+	ReconnectEventData,
+	ReconnectFailedEventData,
+	ReconnectFailedReason,
+	ReconnectHistogram,
+	ReconnectJitter,
+	ResolveUrlContext,
 	RoomInfo,
+	RoomState,
+	RoomsRestoredEventData,
+	Schema,
+	SchemaConfig,
+	SchemaResult,
+	SchemaType,
+	SchemaValidator,
+	SockeonError,
 	SockeonMessage,
 	SockeonOptions,
+	StatsConfig,
+	StreamOptions,
+	StreamOverflowStrategy,
+	StructuralSchema,
+	SystemEventMap,
+	UrlResolver,
+	ValidationErrorEventData,
+	ValidationIssue,
+	WaitForOptions,
+	WebSocketConstructor,
+	WebSocketLike,
 } from "./types";
 
-export { CLOSE_CODES, SYSTEM_EVENTS } from "./types";
+export type { Codec } from "./codec";
+export type { EnvironmentChange, EnvironmentProbe } from "./environment";
+export type { MockEnvironmentOptions } from "./mock-environment";
+export type { MockTransportOptions } from "./mock-transport";
+export type { Presence, PresenceEventMap } from "./presence";
+export type { Room } from "./room";
+export type {
+	TrafficDirection,
+	Transport,
+	TransportEventHandlers,
+	TransportFactory,
+	TransportOptions,
+} from "./transport";
+
+export { JsonCodec, MessagePackCodec } from "./codec";
+export { BrowserEnvironment } from "./environment";
+export { MockEnvironment } from "./mock-environment";
+export { MockTransport } from "./mock-transport";
+export { EventObservable, EventStream } from "./stream";
+export { WebSocketTransport } from "./transport";
+export { CLOSE_CODE_POLICY, CLOSE_CODES, SYSTEM_EVENTS } from "./types";
@@ -0,0 +1,158 @@
+/**
+ * Sockeon Middleware Pipeline
+ *
+ * Ordered chain of message hooks:
+ * - Sync or async middlewares
+ * - Transform (return a message), short-circuit (return null), reject (throw)
+ * - Message order preserved across async middlewares
+ */
+
+import type { Middleware, SockeonMessage } from "./types";
+
+/**
+ * Check for a promise-like middleware result
+ */
+function isThenable(value: unknown): value is PromiseLike<unknown> {
+	return (
+		typeof value === "object" &&
+		value !== null &&
+		typeof (value as PromiseLike<unknown>).then === "function"
+	);
+}
+
+/**
+ * Pipeline outcome callbacks
+ */
+export interface PipelineHandlers {
+	/** Message passed every middleware */
+	deliver: (message: SockeonMessage) => void;
+	/** A middleware returned null */
+	drop: (message: SockeonMessage) => void;
+	/** A middleware (or deliver) threw or rejected */
+	fail: (error: Error, message: SockeonMessage) => void;
+}
+
+/**
+ * Middleware chain for one direction (incoming or outgoing)
+ */
+export class MiddlewarePipeline {
+	private middlewares: Middleware[] = [];
+	private tail: Promise<void> | null = null;
+
+	/**
+	 * Append a middleware; returns a function that removes it
+	 */
+	add(middleware: Middleware): () => void {
+		this.middlewares.push(middleware);
+
+		return () => {
+			this.middlewares = this.middlewares.filter((m) => m !== middleware);
+		};
+	}
+
+	/**
+	 * Number of registered middlewares
+	 */
+	size(): number {
+		return this.middlewares.length;
+	}
+
+	/**
+	 * Run a message through the chain
+	 * Stays synchronous while every middleware is synchronous and no earlier
+	 * message is still in flight; otherwise waits for earlier messages so
+	 * delivery order matches call order.
+	 */
+	run(message: SockeonMessage, handlers: PipelineHandlers): void {
+		const middlewares = this.middlewares.slice();
+
+		if (this.tail) {
+			this.track(
+				this.tail.then(() =>
+					this.step(middlewares, 0, message, handlers, true),
+				),
+			);
+			return;
+		}
+
+		const result = this.step(middlewares, 0, message, handlers, false);
+		if (result) {
+			this.track(result);
+		}
+	}
+
+	/**
+	 * Run middlewares from `index`, switching to async on the first promise
+	 */
+	private step(
+		middlewares: Middleware[],
+		index: number,
+		message: SockeonMessage,
+		handlers: PipelineHandlers,
+		async: boolean,
+	): Promise<void> | undefined {
+		let current = message;
+
+		for (let i = index; i < middlewares.length; i++) {
+			let result: ReturnType<Middleware>;
+			try {
+				result = middlewares[i](current);
+			} catch (error) {
+				handlers.fail(error as Error, current);
+				return undefined;
+			}
+
+			if (isThenable(result)) {
+				const input = current;
+				return Promise.resolve(result).then(
+					(resolved) => {
+						if (resolved === null) {
+							handlers.drop(input);
+							return undefined;
+						}
+						return this.step(
+							middlewares,
+							i + 1,
+							resolved ?? input,
+							handlers,
+							true,
+						);
+					},
+					(error) => handlers.fail(error as Error, input),
+				);
+			}
+
+			if (result === null) {
+				handlers.drop(current);
+				return undefined;
+			}
+
+			current = result ?? current;
+		}
+
+		// Synchronous callers get delivery errors thrown back to them
+		if (!async) {
+			handlers.deliver(current);
+			return undefined;
+		}
+
+		try {
+			handlers.deliver(current);
+		} catch (error) {
+			handlers.fail(error as Error, current);
+		}
+		return undefined;
+	}
+
+	/**
+	 * Remember the latest in-flight run so later messages queue behind it
+	 */
+	private track(promise: Promise<void>): void {
+		this.tail = promise;
+		promise.then(() => {
+			if (this.tail === promise) {
+				this.tail = null;
+			}
+		});
+	}
+}
@@ -0,0 +1,106 @@
+/**
+ * Sockeon Mock Environment
+ *
+ * Scriptable environment probe for tests:
+ * - Toggle network and visibility state
+ * - Listeners are notified synchronously, like browser events
+ *
+ * @example
+ * ```ts
+ * const environment = new MockEnvironment();
+ * const socket = new Sockeon({ url, transport, environment: { probe: environment } });
+ *
+ * environment.setOnline(false); // retries pause
+ * environment.setOnline(true);  // reconnects immediately
+ * ```
+ */
+
+import type { EnvironmentChange, EnvironmentProbe } from "./environment";
+
+/**
+ * Mock environment options
+ */
+export interface MockEnvironmentOptions {
+	/** Initial network state (default: true) */
+	online?: boolean;
+	/** Initial visibility (default: true) */
+	visible?: boolean;
+}
+
+/**
+ * In-memory environment probe for testing
+ */
+export class MockEnvironment implements EnvironmentProbe {
+	private online: boolean;
+	private visible: boolean;
+	private listeners: Set<(change: EnvironmentChange) => void> = new Set();
+
+	constructor(options: MockEnvironmentOptions = {}) {
+		this.online = options.online ?? true;
+		this.visible = options.visible ?? true;
+	}
+
+	/**
+	 * Current network state
+	 */
+	isOnline(): boolean {
+		return this.online;
+	}
+
+	/**
+	 * Current visibility
+	 */
+	isVisible(): boolean {
+		return this.visible;
+	}
+
+	/**
+	 * Register a change listener
+	 */
+	subscribe(listener: (change: EnvironmentChange) => void): () => void {
+		this.listeners.add(listener);
+		return () => {
+			this.listeners.delete(listener);
+		};
+	}
+
+	/**
+	 * Change network state (fires 'online'/'offline' when it changes)
+	 */
+	setOnline(online: boolean): void {
+		if (this.online === online) {
+			return;
+		}
+
+		this.online = online;
+		this.notify(online ? "online" : "offline");
+	}
+
+	/**
+	 * Change visibility (fires 'visible'/'hidden' when it changes)
+	 */
+	setVisible(visible: boolean): void {
+		if (this.visible === visible) {
+			return;
+		}
+
+		this.visible = visible;
+		this.notify(visible ? "visible" : "hidden");
+	}
+
+	/**
+	 * Number of active listeners
+	 */
+	listenerCount(): number {
+		return this.listeners.size;
+	}
+
+	/**
+	 * Notify listeners
+	 */
+	private notify(change: EnvironmentChange): void {
+		for (const listener of [...this.listeners]) {
+			listener(change);
+		}
+	}
+}
@@ -0,0 +1,208 @@
+/**
+ * Sockeon Mock Transport
+ *
+ * In-memory transport for unit tests:
+ * - No network or server required
+ * - Script server messages and close codes
+ * - Inspect messages sent by the client
+ *
+ * @example
+ * ```ts
+ * const transport = new MockTransport();
+ * const socket = new Sockeon({ url: 'ws://test', transport });
+ *
+ * socket.connect();
+ * socket.emit('chat.send', { body: 'Hi' });
+ * expect(transport.sent).toEqual([{ event: 'chat.send', data: { body: 'Hi' } }]);
+ *
+ * transport.receive('chat.message', { body: 'Hello' });
+ * transport.close(CLOSE_CODES.GOING_AWAY, 'Server restart');
+ * ```
+ */
+
+import { byteLength } from "./binary";
+import type { Transport, TransportEventHandlers } from "./transport";
+import { CLOSE_CODES, type MessageData, type SockeonMessage } from "./types";
+
+/**
+ * Mock transport options
+ */
+export interface MockTransportOptions {
+	/** Open the connection as soon as the client calls connect() (default: true) */
+	autoOpen?: boolean;
+}
+
+/**
+ * In-memory transport for testing
+ */
+export class MockTransport implements Transport {
+	/** Messages sent by the client, in order */
+	readonly sent: SockeonMessage[] = [];
+	/** Number of times the client called connect() */
+	connectCount: number = 0;
+	/** Query parameters set by the client for the next connection */
+	query: Record<string, string> = {};
+	/** URL set by the client for the next connection (failover) */
+	url: string | null = null;
+	/** Simulated bytes waiting to be sent (drives flow control) */
+	bufferedAmount: number = 0;
+	private handlers: TransportEventHandlers = {};
+	private connected: boolean = false;
+	private connecting: boolean = false;
+	private autoOpen: boolean;
+
+	constructor(options: MockTransportOptions = {}) {
+		this.autoOpen = options.autoOpen ?? true;
+	}
+
+	/**
+	 * Client connection request
+	 */
+	connect(): void {
+		if (this.connected || this.connecting) {
+			return;
+		}
+
+		this.connectCount++;
+		this.connecting = true;
+
+		if (this.autoOpen) {
+			this.open();
+		}
+	}
+
+	/**
+	 * Record a message sent by the client
+	 */
+	send(message: SockeonMessage): void {
+		if (!this.connected) {
+			throw new Error("WebSocket is not connected");
+		}
+
+		this.sent.push(structuredClone(message));
+		this.handlers.onTraffic?.("sent", byteLength(JSON.stringify(message)));
+	}
+
+	/**
+	 * Client-initiated close
+	 */
+	disconnect(
+		code: number = CLOSE_CODES.NORMAL,
+		reason: string = "Normal closure",
+	): void {
+		if (!this.connected && !this.connecting) {
+			return;
+		}
+
+		this.close(code, reason);
+	}
+
+	/**
+	 * Client-initiated forced close
+	 */
+	terminate(code: number, reason: string): void {
+		this.disconnect(code, reason);
+	}
+
+	/**
+	 * Record query parameters (e.g. the resume token)
+	 */
+	setQuery(query: Record<string, string>): void {
+		this.query = { ...query };
+	}
+
+	/**
+	 * Record the endpoint URL
+	 */
+	setUrl(url: string): void {
+		this.url = url;
+	}
+
+	/**
+	 * Report the simulated buffered amount
+	 */
+	getBufferedAmount(): number {
+		return this.bufferedAmount;
+	}
+
+	/**
+	 * Register event handlers
+	 */
+	on(handlers: TransportEventHandlers): void {
+		this.handlers = { ...this.handlers, ...handlers };
+	}
+
+	/**
+	 * Check if connected
+	 */
+	isConnected(): boolean {
+		return this.connected;
+	}
+
+	/**
+	 * Simulate the server accepting the connection
+	 */
+	open(): void {
+		if (this.connected) {
+			return;
+		}
+
+		this.connecting = false;
+		this.connected = true;
+		this.handlers.onOpen?.();
+	}
+
+	/**
+	 * Simulate a message from the server
+	 */
+	receive(
+		event: string,
+		data: MessageData = {},
+		extra: Partial<Omit<SockeonMessage, "event" | "data">> = {},
+	): void {
+		if (!this.connected) {
+			throw new Error("Cannot receive: mock transport is not connected");
+		}
+
+		const message = { ...extra, event, data };
+		this.handlers.onTraffic?.("received", byteLength(JSON.stringify(message)));
+		this.handlers.onMessage?.(message);
+	}
+
+	/**
+	 * Simulate the connection closing (server close, network loss, failed connect)
+	 */
+	close(code: number = CLOSE_CODES.NORMAL, reason: string = ""): void {
+		this.connected = false;
+		this.connecting = false;
+		this.handlers.onClose?.(code, reason);
+	}
+
+	/**
+	 * Simulate a transport error
+	 */
+	error(error: Error = new Error("WebSocket error occurred")): void {
+		this.handlers.onError?.(error);
+	}
+
+	/**
+	 * Messages sent by the client for an event
+	 */
+	sentEvents(event: string): SockeonMessage[] {
+		return this.sent.filter((message) => message.event === event);
+	}
+
+	/**
+	 * Last message sent by the client
+	 */
+	lastSent(): SockeonMessage | undefined {
+		return this.sent[this.sent.length - 1];
+	}
+
+	/**
+	 * Forget recorded messages
+	 */
+	clearSent(): void {
+		this.sent.length = 0;
+	}
+}
@@ -0,0 +1,450 @@
+/**
+ * Sockeon MessagePack
+ *
+ * Dependency-free MessagePack encoder/decoder used by MessagePackCodec:
+ * - Values map like JSON (toJSON() is honored, undefined map values are skipped)
+ * - ArrayBuffer, typed arrays and DataView encode as bin, decode as Uint8Array
+ * - 64-bit integers decode to numbers (precision is lost beyond 2^53)
+ * - Extension types are not supported
+ */
+
+import { toUint8Array } from "./binary";
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+/**
+ * Encode a value to MessagePack
+ */
+export function encode(value: unknown): Uint8Array {
+	return new Encoder().encode(value);
+}
+
+/**
+ * Decode a MessagePack value
+ */
+export function decode(bytes: Uint8Array): unknown {
+	return new Decoder(bytes).decode();
+}
+
+/**
+ * Growable MessagePack writer
+ */
+class Encoder {
+	private bytes = new Uint8Array(256);
+	private view = new DataView(this.bytes.buffer);
+	private length = 0;
+
+	/**
+	 * Encode a value and return the written bytes
+	 */
+	encode(value: unknown): Uint8Array {
+		this.write(value);
+		return this.bytes.slice(0, this.length);
+	}
+
+	/**
+	 * Write any value
+	 */
+	private write(value: unknown): void {
+		if (value === null || value === undefined) {
+			this.writeByte(0xc0);
+		} else if (typeof value === "boolean") {
+			this.writeByte(value ? 0xc3 : 0xc2);
+		} else if (typeof value === "number") {
+			this.writeNumber(value);
+		} else if (typeof value === "string") {
+			this.writeString(value);
+		} else if (value instanceof ArrayBuffer || ArrayBuffer.isView(value)) {
+			this.writeBinary(toUint8Array(value));
+		} else if (typeof Blob !== "undefined" && value instanceof Blob) {
+			throw new TypeError(
+				"Blob values cannot be encoded as MessagePack; use an ArrayBuffer",
+			);
+		} else if (Array.isArray(value)) {
+			this.writeArray(value);
+		} else if (typeof value === "object") {
+			this.writeObject(value as Record<string, unknown>);
+		} else if (typeof value === "bigint") {
+			throw new TypeError("BigInt values cannot be encoded as MessagePack");
+		} else {
+			// Functions and symbols, as JSON.stringify does inside arrays
+			this.writeByte(0xc0);
+		}
+	}
+
+	/**
+	 * Write an integer (smallest format) or a float64
+	 */
+	private writeNumber(value: number): void {
+		if (!Number.isSafeInteger(value)) {
+			this.writeByte(0xcb);
+			this.reserve(8);
+			this.view.setFloat64(this.length, value);
+			this.length += 8;
+			return;
+		}
+
+		if (value >= 0) {
+			if (value < 0x80) {
+				this.writeByte(value);
+			} else if (value < 0x100) {
+				this.writeByte(0xcc);
+				this.writeByte(value);
+			} else if (value < 0x10000) {
+				this.writeByte(0xcd);
+				this.writeUint16(value);
+			} else if (value < 0x100000000) {
+				this.writeByte(0xce);
+				this.writeUint32(value);
+			} else {
+				this.writeByte(0xcf);
+				this.writeUint64(value);
+			}
+			return;
+		}
+
+		if (value >= -0x20) {
+			this.writeByte(value & 0xff);
+		} else if (value >= -0x80) {
+			this.writeByte(0xd0);
+			this.writeByte(value & 0xff);
+		} else if (value >= -0x8000) {
+			this.writeByte(0xd1);
+			this.writeUint16(value & 0xffff);
+		} else if (value >= -0x80000000) {
+			this.writeByte(0xd2);
+			this.writeUint32(value >>> 0);
+		} else {
+			this.writeByte(0xd3);
+			this.writeUint64(value);
+		}
+	}
+
+	/**
+	 * Write a UTF-8 string
+	 */
+	private writeString(value: string): void {
+		const bytes = textEncoder.encode(value);
+		const size = bytes.length;
+
+		if (size < 0x20) {
+			this.writeByte(0xa0 | size);
+		} else if (size < 0x100) {
+			this.writeByte(0xd9);
+			this.writeByte(size);
+		} else if (size < 0x10000) {
+			this.writeByte(0xda);
+			this.writeUint16(size);
+		} else {
+			this.writeByte(0xdb);
+			this.writeUint32(size);
+		}
+
+		this.writeBytes(bytes);
+	}
+
+	/**
+	 * Write a bin value
+	 */
+	private writeBinary(bytes: Uint8Array): void {
+		const size = bytes.length;
+
+		if (size < 0x100) {
+			this.writeByte(0xc4);
+			this.writeByte(size);
+		} else if (size < 0x10000) {
+			this.writeByte(0xc5);
+			this.writeUint16(size);
+		} else {
+			this.writeByte(0xc6);
+			this.writeUint32(size);
+		}
+
+		this.writeBytes(bytes);
+	}
+
+	/**
+	 * Write an array
+	 */
+	private writeArray(items: unknown[]): void {
+		const size = items.length;
+
+		if (size < 0x10) {
+			this.writeByte(0x90 | size);
+		} else if (size < 0x10000) {
+			this.writeByte(0xdc);
+			this.writeUint16(size);
+		} else {
+			this.writeByte(0xdd);
+			this.writeUint32(size);
+		}
+
+		for (const item of items) {
+			this.write(item);
+		}
+	}
+
+	/**
+	 * Write an object as a map with string keys
+	 */
+	private writeObject(object: Record<string, unknown>): void {
+		if (typeof object.toJSON === "function") {
+			this.write(object.toJSON());
+			return;
+		}
+
+		const entries = Object.entries(object).filter(
+			([, value]) =>
+				value !== undefined &&
+				typeof value !== "function" &&
+				typeof value !== "symbol",
+		);
+		const size = entries.length;
+
+		if (size < 0x10) {
+			this.writeByte(0x80 | size);
+		} else if (size < 0x10000) {
+			this.writeByte(0xde);
+			this.writeUint16(size);
+		} else {
+			this.writeByte(0xdf);
+			this.writeUint32(size);
+		}
+
+		for (const [key, value] of entries) {
+			this.writeString(key);
+			this.write(value);
+		}
+	}
+
+	private writeByte(value: number): void {
+		this.reserve(1);
+		this.bytes[this.length++] = value;
+	}
+
+	private writeUint16(value: number): void {
+		this.reserve(2);
+		this.view.setUint16(this.length, value);
+		this.length += 2;
+	}
+
+	private writeUint32(value: number): void {
+		this.reserve(4);
+		this.view.setUint32(this.length, value);
+		this.length += 4;
+	}
+
+	/**
+	 * Write a safe integer as 64 bits (two's complement for negatives)
+	 */
+	private writeUint64(value: number): void {
+		const high = Math.floor(value / 0x100000000);
+		const low = value - high * 0x100000000;
+		this.reserve(8);
+		this.view.setInt32(this.length, high);
+		this.view.setUint32(this.length + 4, low);
+		this.length += 8;
+	}
+
+	private writeBytes(bytes: Uint8Array): void {
+		this.reserve(bytes.length);
+		this.bytes.set(bytes, this.length);
+		this.length += bytes.length;
+	}
+
+	/**
+	 * Grow the buffer to fit `size` more bytes
+	 */
+	private reserve(size: number): void {
+		const required = this.length + size;
+		if (required <= this.bytes.length) {
+			return;
+		}
+
+		let capacity = this.bytes.length * 2;
+		while (capacity < required) {
+			capacity *= 2;
+		}
+
+		const bytes = new Uint8Array(capacity);
+		bytes.set(this.bytes.subarray(0, this.length));
+		this.bytes = bytes;
+		this.view = new DataView(bytes.buffer);
+	}
+}
+
+/**
+ * MessagePack reader
+ */
+class Decoder {
+	private bytes: Uint8Array;
+	private view: DataView;
+	private offset = 0;
+
+	constructor(bytes: Uint8Array) {
+		this.bytes = bytes;
+		this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+	}
+
+	/**
+	 * Decode a single value spanning the whole input
+	 */
+	decode(): unknown {
+		const value = this.read();
+		if (this.offset !== this.bytes.length) {
+			throw new Error("Unexpected trailing bytes in MessagePack data");
+		}
+		return value;
+	}
+
+	/**
+	 * Read any value
+	 */
+	private read(): unknown {
+		const type = this.readByte();
+
+		if (type < 0x80) return type;
+		if (type < 0x90) return this.readMap(type & 0x0f);
+		if (type < 0xa0) return this.readArray(type & 0x0f);
+		if (type < 0xc0) return this.readString(type & 0x1f);
+		if (type >= 0xe0) return type - 0x100;
+
+		switch (type) {
+			case 0xc0:
+				return null;
+			case 0xc2:
+				return false;
+			case 0xc3:
+				return true;
+			case 0xc4:
+				return this.readBinary(this.readByte());
+			case 0xc5:
+				return this.readBinary(this.readUint16());
+			case 0xc6:
+				return this.readBinary(this.readUint32());
+			case 0xca:
+				return this.readNumber(4, () => this.view.getFloat32(this.offset));
+			case 0xcb:
+				return this.readNumber(8, () => this.view.getFloat64(this.offset));
+			case 0xcc:
+				return this.readByte();
+			case 0xcd:
+				return this.readUint16();
+			case 0xce:
+				return this.readUint32();
+			case 0xcf:
+				return this.readNumber(
+					8,
+					() =>
+						this.view.getUint32(this.offset) * 0x100000000 +
+						this.view.getUint32(this.offset + 4),
+				);
+			case 0xd0:
+				return this.readNumber(1, () => this.view.getInt8(this.offset));
+			case 0xd1:
+				return this.readNumber(2, () => this.view.getInt16(this.offset));
+			case 0xd2:
+				return this.readNumber(4, () => this.view.getInt32(this.offset));
+			case 0xd3:
+				return this.readNumber(
+					8,
+					() =>
+						this.view.getInt32(this.offset) * 0x100000000 +
+						this.view.getUint32(this.offset + 4),
+				);
+			case 0xd9:
+				return this.readString(this.readByte());
+			case 0xda:
+				return this.readString(this.readUint16());
+			case 0xdb:
+				return this.readString(this.readUint32());
+			case 0xdc:
+				return this.readArray(this.readUint16());
+			case 0xdd:
+				return this.readArray(this.readUint32());
+			case 0xde:
+				return this.readMap(this.readUint16());
+			case 0xdf:
+				return this.readMap(this.readUint32());
+			default:
+				throw new Error(`Unsupported MessagePack type 0x${type.toString(16)}`);
+		}
+	}
+
+	private readArray(size: number): unknown[] {
+		const items: unknown[] = [];
+		for (let i = 0; i < size; i++) {
+			items.push(this.read());
+		}
+		return items;
+	}
+
+	private readMap(size: number): Record<string, unknown> {
+		const object: Record<string, unknown> = {};
+		for (let i = 0; i < size; i++) {
+			const key = String(this.read());
+			const value = this.read();
+
+			// Never let a "__proto__" key replace the object's prototype
+			Object.defineProperty(object, key, {
+				value,
+				enumerable: true,
+				writable: true,
+				configurable: true,
+			});
+		}
+		return object;
+	}
+
+	private readString(size: number): string {
+		this.check(size);
+		const value = textDecoder.decode(
+			this.bytes.subarray(this.offset, this.offset + size),
+		);
+		this.offset += size;
+		return value;
+	}
+
+	/**
+	 * Read bin data (copied so the frame buffer can be released)
+	 */
+	private readBinary(size: number): Uint8Array {
+		this.check(size);
+		const value = this.bytes.slice(this.offset, this.offset + size);
+		this.offset += size;
+		return value;
+	}
+
+	private readByte(): number {
+		this.check(1);
+		return this.bytes[this.offset++];
+	}
+
+	private readUint16(): number {
+		return this.readNumber(2, () => this.view.getUint16(this.offset));
+	}
+
+	private readUint32(): number {
+		return this.readNumber(4, () => this.view.getUint32(this.offset));
+	}
+
+	/**
+	 * Read a fixed-size number at the current offset
+	 */
+	private readNumber(size: number, read: () => number): number {
+		this.check(size);
+		const value = read();
+		this.offset += size;
+		return value;
+	}
+
+	/**
+	 * Ensure `size` more bytes are available
+	 */
+	private check(size: number): void {
+		if (this.offset + size > this.bytes.length) {
+			throw new RangeError("Unexpected end of MessagePack data");
+		}
+	}
+}
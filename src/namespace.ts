@@ -0,0 +1,477 @@
+/**
+ * Sockeon Namespace Client
+ *
+ * Namespace-scoped view over a shared connection:
+ * - Own listener registry
+ * - Own room membership, confirmed by the server (restored after reconnect)
+ * - Presence lists and room handles of its rooms
+ * - Outgoing messages tagged with the namespace
+ */
+
+import { Presence } from "./presence";
+import { Room } from "./room";
+import type {
+	ClientEventsMap,
+	DefaultClientEvents,
+	DefaultServerEvents,
+	EmitLatestOptions,
+	EmitResult,
+	EventHandler,
+	EventListener,
+	EventNames,
+	EventsMap,
+	MessageData,
+	NamespaceClient,
+	PresenceConfig,
+	RoomInfo,
+	RoomState,
+	RoomsRestoredEventData,
+} from "./types";
+
+/**
+ * Server presence events (the client reports its own diffs under the same names)
+ */
+const PRESENCE_EVENTS = new Set([
+	"presence.sync",
+	"presence.join",
+	"presence.update",
+	"presence.leave",
+]);
+
+/**
+ * Rejection for a room call made while offline
+ * Marked as handled, so callers that ignore it see no unhandled rejection.
+ */
+function notConnected<T>(action: "join" | "leave"): Promise<T> {
+	const promise = Promise.reject<T>(
+		new Error(`Cannot ${action} room: not connected`),
+	);
+	promise.catch(() => undefined);
+	return promise;
+}
+
+/**
+ * Namespace configuration (from the client options)
+ */
+export interface NamespaceConfig {
+	/** Wait for the server to confirm room joins and leaves */
+	confirmRooms: boolean;
+	presence: PresenceConfig;
+}
+
+/**
+ * Connection services a namespace relies on (provided by Sockeon)
+ */
+export interface NamespaceHost {
+	/** Emit an application event on behalf of a namespace (rate limited) */
+	emit(namespace: string, event: string, data: MessageData): EmitResult;
+	/** Emit a coalesced latest value on behalf of a namespace */
+	emitLatest(
+		namespace: string,
+		event: string,
+		data: MessageData,
+		options: EmitLatestOptions,
+	): void;
+	/** Send a protocol event (room membership) on behalf of a namespace */
+	send(namespace: string, event: string, data: MessageData): void;
+	/** Send a protocol event and wait for the server's reply (ackTimeout) */
+	request(
+		namespace: string,
+		event: string,
+		data: MessageData,
+	): Promise<unknown>;
+	/** Check if the shared connection is open */
+	isConnected(): boolean;
+}
+
+/**
+ * Listener registry a namespace delivers to (an EventEmitter of any map)
+ * Names and payloads come off the wire, so this view is untyped.
+ */
+export interface NamespaceEvents {
+	on(event: string, handler: EventHandler): void;
+	once(event: string, handler: EventHandler): void;
+	off(event: string, handler?: EventHandler): void;
+	emit(event: string, data?: unknown): void;
+}
+
+/**
+ * Namespace operations driven by the shared connection (any event maps)
+ */
+export type NamespaceRoute = Pick<
+	Namespace,
+	| "receive"
+	| "restoreRooms"
+	| "resyncPresence"
+	| "suspendPresence"
+	| "resetRooms"
+>;
+
+/**
+ * Namespace bound to a shared Sockeon connection
+ */
+export class Namespace<
+	ServerEvents extends EventsMap = DefaultServerEvents,
+	ClientEvents extends ClientEventsMap<ClientEvents> = DefaultClientEvents,
+> implements NamespaceClient<ServerEvents, ClientEvents>
+{
+	readonly namespace: string;
+	private host: NamespaceHost;
+	private events: NamespaceEvents;
+	private rooms: Map<string, RoomInfo> = new Map();
+	private joins: Map<string, Promise<RoomInfo>> = new Map();
+	private presences: Map<string, Presence> = new Map();
+	private handles: Map<string, Room<ServerEvents, ClientEvents>> = new Map();
+	private config: NamespaceConfig;
+	private debug: boolean = false;
+
+	constructor(
+		namespace: string,
+		host: NamespaceHost,
+		events: NamespaceEvents,
+		config: NamespaceConfig,
+		debug: boolean = false,
+	) {
+		this.namespace = namespace;
+		this.host = host;
+		this.events = events;
+		this.config = config;
+		this.debug = debug;
+	}
+
+	/**
+	 * Emit event to server within this namespace
+	 */
+	emit<E extends EventNames<ClientEvents>>(
+		event: E,
+		data?: ClientEvents[E],
+	): EmitResult {
+		return this.host.emit(this.namespace, event, data ?? {});
+	}
+
+	/**
+	 * Emit the latest value of a high-frequency event within this namespace
+	 */
+	emitLatest<E extends EventNames<ClientEvents>>(
+		event: E,
+		data?: ClientEvents[E],
+		options: EmitLatestOptions = {},
+	): void {
+		this.host.emitLatest(this.namespace, event, data ?? {}, options);
+	}
+
+	/**
+	 * Register event handler
+	 */
+	on<E extends EventNames<ServerEvents> | "*">(
+		event: E,
+		handler: EventListener<ServerEvents, E>,
+	): void {
+		this.events.on(event, handler as EventHandler);
+	}
+
+	/**
+	 * Register one-time event handler
+	 */
+	once<E extends EventNames<ServerEvents> | "*">(
+		event: E,
+		handler: EventListener<ServerEvents, E>,
+	): void {
+		this.events.once(event, handler as EventHandler);
+	}
+
+	/**
+	 * Remove event handler
+	 */
+	off<E extends EventNames<ServerEvents> | "*">(
+		event: E,
+		handler?: EventListener<ServerEvents, E>,
+	): void {
+		this.events.off(event, handler as EventHandler | undefined);
+	}
+
+	/**
+	 * Join a room in this namespace
+	 * Resolves once the server confirms (immediately with confirmRooms: false);
+	 * rejects if not connected, or if the server denies the join or does not
+	 * answer in time.
+	 */
+	joinRoom(room: string): Promise<RoomInfo> {
+		if (!this.host.isConnected()) {
+			return notConnected("join");
+		}
+
+		const info = this.rooms.get(room);
+		if (info?.state === "joined") {
+			return Promise.resolve({ ...info });
+		}
+
+		return this.joins.get(room) ?? this.requestJoin(room);
+	}
+
+	/**
+	 * Leave a room in this namespace
+	 * Membership is dropped right away; the promise resolves once the server
+	 * confirms (immediately with confirmRooms: false). Rejects if not connected.
+	 */
+	leaveRoom(room: string): Promise<void> {
+		if (!this.host.isConnected()) {
+			return notConnected("leave");
+		}
+
+		const info = this.rooms.get(room);
+		this.presences.get(room)?.close();
+		this.handles.get(room)?.close();
+		this.rooms.delete(room);
+		this.joins.delete(room);
+		this.log(`Left room: ${room}`);
+
+		// The server never accepted a failed join: nothing to leave
+		if (info?.state === "failed") {
+			return Promise.resolve();
+		}
+
+		const data = { room, namespace: this.namespace };
+		if (!this.config.confirmRooms) {
+			this.host.send(this.namespace, "leave_room", data);
+			return Promise.resolve();
+		}
+
+		const promise = this.host
+			.request(this.namespace, "leave_room", data)
+			.then(() => undefined);
+
+		// Callers that ignore the result must not trigger unhandled rejections
+		promise.catch(() => undefined);
+		return promise;
+	}
+
+	/**
+	 * Get rooms in a membership state (default: joined)
+	 */
+	getRooms(state: RoomState = "joined"): string[] {
+		return Array.from(this.rooms.values())
+			.filter((info) => info.state === state)
+			.map((info) => info.name);
+	}
+
+	/**
+	 * Get details of current rooms
+	 */
+	getRoomInfo(): RoomInfo[] {
+		return Array.from(this.rooms.values(), (info) => ({ ...info }));
+	}
+
+	/**
+	 * Get a handle for a room in this namespace, joining it if needed
+	 * The same handle is returned until the room is left or forgotten.
+	 */
+	room(name: string): Room<ServerEvents, ClientEvents> {
+		const existing = this.handles.get(name);
+		if (existing) {
+			return existing;
+		}
+
+		const info = this.rooms.get(name);
+		const needsJoin = !info || info.state === "failed";
+		if (needsJoin && !this.host.isConnected()) {
+			throw new Error("Cannot join room: not connected");
+		}
+
+		const handle = new Room<ServerEvents, ClientEvents>(name, this.namespace, {
+			emit: (event, data) => this.host.emit(this.namespace, event, data),
+			listen: (event, handler: EventHandler) => this.events.on(event, handler),
+			unlisten: (event, handler: EventHandler) =>
+				this.events.off(event, handler),
+			join: () => this.joinRoom(name),
+			leave: () => this.leaveRoom(name),
+			getInfo: () => {
+				const info = this.rooms.get(name);
+				return info ? { ...info } : undefined;
+			},
+			presence: () => this.presence(name),
+			close: () => this.handles.delete(name),
+		});
+		this.handles.set(name, handle);
+
+		// A denied join closes the handle; observe it through handle.ready()
+		if (needsJoin) {
+			void this.joinRoom(name);
+		}
+		return handle;
+	}
+
+	/**
+	 * Get the live presence list of a room in this namespace
+	 * The same handle is returned until it is closed or the room is left.
+	 */
+	presence(room: string): Presence {
+		const existing = this.presences.get(room);
+		if (existing) {
+			return existing;
+		}
+
+		const presence = new Presence(
+			room,
+			this.namespace,
+			this.config.presence,
+			{
+				send: (event, data) => this.host.send(this.namespace, event, data),
+				isConnected: () => this.host.isConnected(),
+				emit: (event, data) => this.events.emit(event, data),
+				close: () => this.presences.delete(room),
+			},
+			this.debug,
+		);
+		this.presences.set(room, presence);
+		return presence;
+	}
+
+	/**
+	 * Deliver an incoming server event to this namespace's handlers
+	 * Presence events update the presence list of their room instead; those
+	 * for untracked rooms are dropped, as handlers expect client diffs.
+	 * @internal
+	 */
+	receive(event: string, data: unknown): void {
+		if (PRESENCE_EVENTS.has(event)) {
+			const room = (data as { room?: unknown } | null)?.room;
+			const presence =
+				typeof room === "string" ? this.presences.get(room) : undefined;
+			if (!presence?.receive(event, data)) {
+				this.log(`Ignoring ${event} for room: ${String(room)}`);
+			}
+			return;
+		}
+
+		this.events.emit(event, data);
+	}
+
+	/**
+	 * Replay join_room for every remembered room (connection re-established)
+	 * Rooms the server refuses are marked failed.
+	 * @internal
+	 */
+	restoreRooms(): Promise<RoomsRestoredEventData> {
+		const result: RoomsRestoredEventData = { restored: [], failed: [] };
+		const rooms = Array.from(this.rooms.values())
+			.filter((info) => info.state !== "failed")
+			.map((info) => info.name);
+
+		return Promise.all(
+			rooms.map((room) =>
+				this.requestJoin(room).then(
+					(info) => {
+						result.restored.push(info);
+						this.log(`Re-joined room: ${room}`);
+					},
+					(error: Error) => {
+						result.failed.push({
+							room,
+							namespace: this.namespace,
+							error: error.message,
+						});
+						this.log(`Failed to re-join room: ${room}`, error);
+					},
+				),
+			),
+		).then(() => result);
+	}
+
+	/**
+	 * Send join_room and track the membership until the server answers
+	 * A join interrupted by a disconnect stays pending and is retried on
+	 * reconnect; one refused while connected is marked failed.
+	 */
+	private requestJoin(room: string): Promise<RoomInfo> {
+		const { confirmRooms } = this.config;
+		const info: RoomInfo = {
+			name: room,
+			namespace: this.namespace,
+			joinedAt: Date.now(),
+			state: confirmRooms ? "pending" : "joined",
+		};
+		this.rooms.set(room, info);
+
+		const data = { room, namespace: this.namespace };
+		let request: Promise<unknown>;
+		try {
+			if (confirmRooms) {
+				request = this.host.request(this.namespace, "join_room", data);
+			} else {
+				this.host.send(this.namespace, "join_room", data);
+				request = Promise.resolve();
+			}
+		} catch (error) {
+			request = Promise.reject(error);
+		}
+
+		const promise = request.then(
+			() => {
+				if (this.joins.get(room) === promise) {
+					this.joins.delete(room);
+				}
+				if (this.rooms.get(room) === info) {
+					info.state = "joined";
+					info.joinedAt = Date.now();
+					this.log(`Joined room: ${room}`);
+				}
+				return { ...info };
+			},
+			(error: Error) => {
+				if (this.joins.get(room) === promise) {
+					this.joins.delete(room);
+				}
+				if (this.rooms.get(room) === info && this.host.isConnected()) {
+					info.state = "failed";
+					info.error = error.message;
+					this.handles.get(room)?.close();
+					this.log(`Failed to join room: ${room}`, error);
+				}
+				throw error;
+			},
+		);
+
+		// Callers that ignore the result must not trigger unhandled rejections;
+		// a refused join stays visible as a 'failed' room
+		promise.catch(() => undefined);
+
+		this.joins.set(room, promise);
+		return promise;
+	}
+
+	/**
+	 * Re-sync presence lists (connection re-established)
+	 * @internal
+	 */
+	resyncPresence(): void {
+		this.presences.forEach((presence) => presence.resync());
+	}
+
+	/**
+	 * Pause presence lists (connection lost); `clear` empties them
+	 * @internal
+	 */
+	suspendPresence(clear: boolean): void {
+		this.presences.forEach((presence) => presence.suspend(clear));
+	}
+
+	/**
+	 * Forget room membership
+	 * @internal
+	 */
+	resetRooms(): void {
+		this.rooms.clear();
+		this.joins.clear();
+		this.handles.forEach((handle) => handle.close());
+	}
+
+	/**
+	 * Debug logging
+	 */
+	private log(...args: unknown[]): void {
+		if (this.debug) {
+			console.log(`[Sockeon Namespace ${this.namespace}]`, ...args);
+		}
+	}
+}
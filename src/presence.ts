@@ -0,0 +1,390 @@
+/**
+ * Sockeon Presence
+ *
+ * Live member list of a room, built from server presence events:
+ * - presence.sync replaces the list; presence.join/update/leave patch it
+ * - The client's own metadata is published with track() and refreshed
+ *   periodically so other members keep seeing it
+ * - Members not heard from within the timeout are evicted
+ * - The list is re-synced after a reconnect
+ */
+
+import { EventEmitter } from "./events";
+import type {
+	EventListener,
+	EventNames,
+	EventPayload,
+	MessageData,
+	PresenceConfig,
+	PresenceEventData,
+	PresenceLeaveEventData,
+	PresenceLeaveReason,
+	PresenceMember,
+	PresenceMeta,
+	PresenceSyncEventData,
+	TimerHandle,
+} from "./types";
+
+/**
+ * Events of a presence handle
+ */
+export interface PresenceEventMap {
+	join: PresenceEventData;
+	leave: PresenceLeaveEventData;
+	update: PresenceEventData;
+	sync: PresenceSyncEventData;
+}
+
+/**
+ * Connection services a presence handle relies on (provided by its namespace)
+ */
+export interface PresenceHost {
+	/** Send a presence protocol event */
+	send(event: string, data: MessageData): void;
+	/** Check if the shared connection is open */
+	isConnected(): boolean;
+	/** Report a membership change to the namespace's listeners */
+	emit(event: string, data: unknown): void;
+	/** The handle was closed */
+	close(): void;
+}
+
+/**
+ * Presence of one room in one namespace
+ */
+export class Presence {
+	readonly room: string;
+	readonly namespace: string;
+	private config: PresenceConfig;
+	private host: PresenceHost;
+	private events: EventEmitter<PresenceEventMap>;
+	private members: Map<string, PresenceMember> = new Map();
+	private meta: PresenceMeta | null = null;
+	private timer: TimerHandle | null = null;
+	private closed: boolean = false;
+	private debug: boolean = false;
+
+	constructor(
+		room: string,
+		namespace: string,
+		config: PresenceConfig,
+		host: PresenceHost,
+		debug: boolean = false,
+	) {
+		this.room = room;
+		this.namespace = namespace;
+		this.config = config;
+		this.host = host;
+		this.events = new EventEmitter<PresenceEventMap>(debug);
+		this.debug = debug;
+
+		if (host.isConnected()) {
+			this.resync();
+		}
+	}
+
+	/**
+	 * Publish (or replace) this client's presence metadata
+	 * Sent now if connected, otherwise on the next connection.
+	 */
+	track(meta: PresenceMeta = {}): void {
+		this.assertOpen();
+		this.meta = { ...meta };
+
+		if (this.host.isConnected()) {
+			this.publish();
+		}
+	}
+
+	/**
+	 * Stop publishing this client's presence
+	 */
+	untrack(): void {
+		if (this.meta === null) {
+			return;
+		}
+
+		this.meta = null;
+		if (this.host.isConnected()) {
+			this.send("presence.untrack", {});
+		}
+	}
+
+	/**
+	 * Get all current members
+	 */
+	getMembers(): PresenceMember[] {
+		return Array.from(this.members.values(), (member) => this.copy(member));
+	}
+
+	/**
+	 * Get one member by id
+	 */
+	getMember(id: string): PresenceMember | undefined {
+		const member = this.members.get(id);
+		return member ? this.copy(member) : undefined;
+	}
+
+	/**
+	 * Number of current members
+	 */
+	size(): number {
+		return this.members.size;
+	}
+
+	/**
+	 * Register a membership change handler
+	 */
+	on<E extends EventNames<PresenceEventMap>>(
+		event: E,
+		handler: EventListener<PresenceEventMap, E>,
+	): void {
+		this.events.on(event, handler);
+	}
+
+	/**
+	 * Remove a membership change handler
+	 */
+	off<E extends EventNames<PresenceEventMap>>(
+		event: E,
+		handler?: EventListener<PresenceEventMap, E>,
+	): void {
+		this.events.off(event, handler);
+	}
+
+	/**
+	 * Stop tracking the room: untrack, forget members and remove handlers
+	 */
+	close(): void {
+		if (this.closed) {
+			return;
+		}
+
+		if (this.host.isConnected()) {
+			this.untrack();
+		}
+		this.stopTimer();
+		this.members.clear();
+		this.events.removeAllListeners();
+		this.closed = true;
+		this.host.close();
+		this.log("Presence closed");
+	}
+
+	/**
+	 * Apply a server presence event
+	 * Returns false if the event was not a presence update for this room.
+	 * @internal
+	 */
+	receive(event: string, data: unknown): boolean {
+		const payload = data as {
+			id?: unknown;
+			meta?: unknown;
+			members?: unknown;
+		};
+
+		switch (event) {
+			case "presence.sync":
+				if (!Array.isArray(payload.members)) {
+					return false;
+				}
+				this.sync(payload.members);
+				return true;
+			case "presence.join":
+			case "presence.update":
+				if (typeof payload.id !== "string") {
+					return false;
+				}
+				this.upsert(payload.id, this.toMeta(payload.meta));
+				return true;
+			case "presence.leave":
+				if (typeof payload.id !== "string") {
+					return false;
+				}
+				this.remove(payload.id, "left");
+				return true;
+			default:
+				return false;
+		}
+	}
+
+	/**
+	 * Re-publish our metadata and request the member list (connection established)
+	 * @internal
+	 */
+	resync(): void {
+		if (this.meta !== null) {
+			this.publish();
+		}
+		this.send("presence.sync", {});
+		this.startTimer();
+	}
+
+	/**
+	 * Stop refreshing and evicting (connection lost)
+	 * Members are kept until the next sync unless `clear` is set.
+	 * @internal
+	 */
+	suspend(clear: boolean): void {
+		this.stopTimer();
+
+		if (clear) {
+			for (const id of Array.from(this.members.keys())) {
+				this.remove(id, "disconnect");
+			}
+		}
+	}
+
+	/**
+	 * Replace the member list, reporting the differences
+	 */
+	private sync(entries: unknown[]): void {
+		const seen = new Set<string>();
+
+		for (const entry of entries) {
+			const { id, meta } = (entry ?? {}) as { id?: unknown; meta?: unknown };
+			if (typeof id === "string") {
+				seen.add(id);
+				this.upsert(id, this.toMeta(meta));
+			}
+		}
+
+		for (const id of Array.from(this.members.keys())) {
+			if (!seen.has(id)) {
+				this.remove(id, "sync");
+			}
+		}
+
+		this.report("sync", {
+			room: this.room,
+			namespace: this.namespace,
+			members: this.getMembers(),
+		});
+	}
+
+	/**
+	 * Add or refresh a member, reporting join/update
+	 */
+	private upsert(id: string, meta: PresenceMeta): void {
+		const existing = this.members.get(id);
+		const member: PresenceMember = { id, meta, lastSeen: Date.now() };
+		this.members.set(id, member);
+
+		if (!existing) {
+			this.report("join", this.eventData(member));
+		} else if (JSON.stringify(existing.meta) !== JSON.stringify(meta)) {
+			this.report("update", this.eventData(member));
+		}
+	}
+
+	/**
+	 * Remove a member, reporting leave
+	 */
+	private remove(id: string, reason: PresenceLeaveReason): void {
+		const member = this.members.get(id);
+		if (!member) {
+			return;
+		}
+
+		this.members.delete(id);
+		this.report("leave", { ...this.eventData(member), reason });
+	}
+
+	/**
+	 * Refresh our presence and evict members not heard from within the timeout
+	 */
+	private tick(): void {
+		if (!this.host.isConnected()) {
+			return;
+		}
+
+		if (this.meta !== null) {
+			this.publish();
+		}
+
+		const cutoff = Date.now() - this.config.timeout;
+		for (const member of Array.from(this.members.values())) {
+			if (member.lastSeen < cutoff) {
+				this.log(`Evicting stale member: ${member.id}`);
+				this.remove(member.id, "timeout");
+			}
+		}
+	}
+
+	private startTimer(): void {
+		this.stopTimer();
+
+		if (this.config.timeout > 0) {
+			this.timer = setInterval(() => this.tick(), this.config.timeout / 2);
+		}
+	}
+
+	private stopTimer(): void {
+		if (this.timer !== null) {
+			clearInterval(this.timer);
+			this.timer = null;
+		}
+	}
+
+	/**
+	 * Send our metadata
+	 */
+	private publish(): void {
+		this.send("presence.track", { meta: this.meta });
+	}
+
+	/**
+	 * Send a presence protocol event for this room
+	 */
+	private send(event: string, data: Record<string, unknown>): void {
+		this.host.send(event, {
+			...data,
+			room: this.room,
+			namespace: this.namespace,
+		});
+	}
+
+	/**
+	 * Emit a diff on the handle and the namespace ('presence.join', ...)
+	 */
+	private report<E extends EventNames<PresenceEventMap>>(
+		event: E,
+		data: EventPayload<PresenceEventMap, E>,
+	): void {
+		this.events.emit(event, data);
+		this.host.emit(`presence.${event}`, data);
+	}
+
+	private eventData(member: PresenceMember): PresenceEventData {
+		return {
+			room: this.room,
+			namespace: this.namespace,
+			member: this.copy(member),
+		};
+	}
+
+	private toMeta(meta: unknown): PresenceMeta {
+		return typeof meta === "object" && meta !== null && !Array.isArray(meta)
+			? (meta as PresenceMeta)
+			: {};
+	}
+
+	private copy(member: PresenceMember): PresenceMember {
+		return { ...member, meta: { ...member.meta } };
+	}
+
+	private assertOpen(): void {
+		if (this.closed) {
+			throw new Error(`Presence for room '${this.room}' is closed`);
+		}
+	}
+
+	/**
+	 * Debug logging
+	 */
+	private log(...args: unknown[]): void {
+		if (this.debug) {
+			console.log(`[Sockeon Presence ${this.room}]`, ...args);
+		}
+	}
+}
@@ -0,0 +1,134 @@
+/**
+ * Sockeon Outbound Queue
+ *
+ * Bounded buffer for messages emitted while disconnected:
+ * - FIFO ordering
+ * - Configurable max size
+ * - Overflow policies (drop-oldest, drop-newest, reject)
+ * - Per-message TTL expiry
+ */
+
+import type { QueueConfig, QueueDropReason, SockeonMessage } from "./types";
+
+/**
+ * Queued message entry
+ */
+export interface QueuedMessage {
+	message: SockeonMessage;
+	queuedAt: number;
+	expiresAt: number | null;
+}
+
+/**
+ * Drop callback signature
+ */
+export type QueueDropHandler = (
+	entry: QueuedMessage,
+	reason: QueueDropReason,
+) => void;
+
+/**
+ * Outbound message queue
+ */
+export class MessageQueue {
+	private items: QueuedMessage[] = [];
+	private config: QueueConfig;
+	private onDrop: QueueDropHandler;
+
+	constructor(config: QueueConfig, onDrop: QueueDropHandler) {
+		this.config = config;
+		this.onDrop = onDrop;
+	}
+
+	/**
+	 * Add a message to the queue
+	 * Returns false if the message itself was dropped (drop-newest policy).
+	 * Throws if the queue is full and the policy is 'reject'.
+	 */
+	enqueue(message: SockeonMessage): boolean {
+		this.prune();
+
+		const { maxSize, overflow, ttl } = this.config;
+		const now = Date.now();
+		const entry: QueuedMessage = {
+			message,
+			queuedAt: now,
+			expiresAt: ttl > 0 ? now + ttl : null,
+		};
+
+		if (maxSize > 0 && this.items.length >= maxSize) {
+			if (overflow === "reject") {
+				throw new Error("Cannot emit: outbound queue is full");
+			}
+
+			if (overflow === "drop-newest") {
+				this.onDrop(entry, "overflow");
+				return false;
+			}
+
+			const oldest = this.items.shift();
+			if (oldest) {
+				this.onDrop(oldest, "overflow");
+			}
+		}
+
+		this.items.push(entry);
+		return true;
+	}
+
+	/**
+	 * Remove and return all non-expired messages in order
+	 */
+	drain(): QueuedMessage[] {
+		this.prune();
+
+		const items = this.items;
+		this.items = [];
+		return items;
+	}
+
+	/**
+	 * Put messages back at the front of the queue (e.g. after a failed flush)
+	 */
+	requeue(entries: QueuedMessage[]): void {
+		this.items = [...entries, ...this.items];
+	}
+
+	/**
+	 * Remove all queued messages without sending them (each is reported as dropped)
+	 */
+	clear(): void {
+		const items = this.items;
+		this.items = [];
+		for (const entry of items) {
+			this.onDrop(entry, "cleared");
+		}
+	}
+
+	/**
+	 * Number of pending (non-expired) messages
+	 */
+	size(): number {
+		this.prune();
+		return this.items.length;
+	}
+
+	/**
+	 * Drop expired messages
+	 */
+	private prune(): void {
+		const now = Date.now();
+		const expired = this.items.filter(
+			(entry) => entry.expiresAt !== null && entry.expiresAt <= now,
+		);
+
+		if (expired.length === 0) {
+			return;
+		}
+
+		this.items = this.items.filter((entry) => !expired.includes(entry));
+		for (const entry of expired) {
+			this.onDrop(entry, "expired");
+		}
+	}
+}
@@ -0,0 +1,278 @@
+/**
+ * Sockeon Rate Limiting
+ *
+ * Token-bucket limits for emit():
+ * - Global and per-event buckets
+ * - Modes: throw, drop, queue (in order) or coalesce (latest payload wins)
+ * - Held messages are released as tokens refill
+ */
+
+import type {
+	RateLimit,
+	RateLimitConfig,
+	RateLimitMode,
+	SockeonMessage,
+	TimerHandle,
+} from "./types";
+
+/**
+ * Outcome of submitting a message to the limiter
+ */
+export type RateLimitResult =
+	| "accepted"
+	| "throttled"
+	| "coalesced"
+	| "dropped";
+
+/**
+ * Message held until its buckets have tokens
+ */
+interface HeldMessage {
+	message: SockeonMessage;
+	buckets: TokenBucket[];
+}
+
+/**
+ * Token bucket refilled continuously at `rate` tokens per second
+ */
+class TokenBucket {
+	readonly mode: RateLimitMode;
+	readonly maxPending: number;
+	private rate: number;
+	private capacity: number;
+	private tokens: number;
+	private refilledAt: number = Date.now();
+
+	constructor(limit: RateLimit) {
+		this.rate = limit.rate;
+		this.capacity = limit.burst ?? limit.rate;
+		this.tokens = this.capacity;
+		this.mode = limit.mode ?? "throw";
+		this.maxPending = limit.maxPending ?? 100;
+	}
+
+	/**
+	 * Check if a token is available
+	 */
+	hasToken(): boolean {
+		this.refill();
+		return this.tokens >= 1;
+	}
+
+	/**
+	 * Consume a token
+	 */
+	take(): void {
+		this.tokens -= 1;
+	}
+
+	/**
+	 * Milliseconds until a token is available
+	 */
+	waitTime(): number {
+		this.refill();
+		return this.tokens >= 1
+			? 0
+			: Math.ceil(((1 - this.tokens) * 1000) / this.rate);
+	}
+
+	private refill(): void {
+		const now = Date.now();
+		this.tokens = Math.min(
+			this.capacity,
+			this.tokens + ((now - this.refilledAt) * this.rate) / 1000,
+		);
+		this.refilledAt = now;
+	}
+}
+
+/**
+ * Rate limiter for outgoing messages
+ */
+export class RateLimiter {
+	private global: TokenBucket | null;
+	private events: Map<string, TokenBucket> = new Map();
+	private held: HeldMessage[] = [];
+	private timer: TimerHandle | null = null;
+	private release: (message: SockeonMessage) => void;
+	private debug: boolean = false;
+
+	constructor(
+		config: RateLimitConfig,
+		release: (message: SockeonMessage) => void,
+		debug: boolean = false,
+	) {
+		this.global = config.global ? new TokenBucket(config.global) : null;
+		for (const [event, limit] of Object.entries(config.events ?? {})) {
+			this.events.set(event, new TokenBucket(limit));
+		}
+		this.release = release;
+		this.debug = debug;
+	}
+
+	/**
+	 * Check a message against its limits
+	 * "accepted" messages must be sent by the caller; held messages are
+	 * passed to the release callback later. Throws in 'throw' mode.
+	 */
+	submit(message: SockeonMessage): RateLimitResult {
+		const buckets = this.getBuckets(message.event);
+		if (buckets.length === 0) {
+			return "accepted";
+		}
+
+		// Messages for the same target stay in order behind held ones
+		const waiting = this.held.some((entry) =>
+			isSameTarget(entry.message, message),
+		);
+		const limited = waiting
+			? buckets[0]
+			: buckets.find((bucket) => !bucket.hasToken());
+
+		if (!limited) {
+			for (const bucket of buckets) {
+				bucket.take();
+			}
+			return "accepted";
+		}
+
+		switch (limited.mode) {
+			case "throw":
+				throw new Error(`Rate limit exceeded for event '${message.event}'`);
+			case "drop":
+				this.log(`Rate limited, dropped: ${message.event}`);
+				return "dropped";
+			case "coalesce": {
+				// Requests awaiting a reply (emitWithAck) are never replaced
+				const existing =
+					message.id === undefined
+						? this.held.find(
+								(entry) =>
+									entry.message.id === undefined &&
+									isSameTarget(entry.message, message),
+							)
+						: undefined;
+				if (existing) {
+					existing.message = message;
+				} else {
+					this.hold(message, buckets);
+				}
+				return "coalesced";
+			}
+			default: {
+				const count = this.held.filter((entry) =>
+					isSameTarget(entry.message, message),
+				).length;
+				if (count >= limited.maxPending) {
+					this.log(`Rate limit queue full, dropped: ${message.event}`);
+					return "dropped";
+				}
+				this.hold(message, buckets);
+				return "throttled";
+			}
+		}
+	}
+
+	/**
+	 * Discard held messages
+	 * Returns the discarded messages.
+	 */
+	clear(): SockeonMessage[] {
+		const discarded = this.held.map((entry) => entry.message);
+		this.held = [];
+		if (this.timer !== null) {
+			clearTimeout(this.timer);
+			this.timer = null;
+		}
+		return discarded;
+	}
+
+	/**
+	 * Number of held messages
+	 */
+	size(): number {
+		return this.held.length;
+	}
+
+	/**
+	 * Buckets that apply to an event (event bucket first)
+	 */
+	private getBuckets(event: string): TokenBucket[] {
+		const buckets: TokenBucket[] = [];
+		const bucket = this.events.get(event);
+		if (bucket) {
+			buckets.push(bucket);
+		}
+		if (this.global) {
+			buckets.push(this.global);
+		}
+		return buckets;
+	}
+
+	/**
+	 * Hold a message until tokens are available
+	 */
+	private hold(message: SockeonMessage, buckets: TokenBucket[]): void {
+		this.held.push({ message, buckets });
+		this.log(`Rate limited, holding: ${message.event}`);
+		this.schedule();
+	}
+
+	/**
+	 * Wake up when the next held message can go
+	 */
+	private schedule(): void {
+		if (this.timer !== null || this.held.length === 0) {
+			return;
+		}
+
+		const wait = Math.min(
+			...this.held.map((entry) =>
+				Math.max(...entry.buckets.map((bucket) => bucket.waitTime())),
+			),
+		);
+
+		this.timer = setTimeout(
+			() => {
+				this.timer = null;
+				this.flush();
+			},
+			Math.max(wait, 1),
+		);
+	}
+
+	/**
+	 * Release held messages that have tokens, in order
+	 */
+	private flush(): void {
+		for (const entry of [...this.held]) {
+			if (!entry.buckets.every((bucket) => bucket.hasToken())) {
+				continue;
+			}
+
+			for (const bucket of entry.buckets) {
+				bucket.take();
+			}
+			this.held.splice(this.held.indexOf(entry), 1);
+			this.release(entry.message);
+		}
+
+		this.schedule();
+	}
+
+	/**
+	 * Debug logging
+	 */
+	private log(...args: unknown[]): void {
+		if (this.debug) {
+			console.log("[Sockeon Rate Limit]", ...args);
+		}
+	}
+}
+
+/**
+ * Check if two messages go to the same event in the same namespace
+ */
+function isSameTarget(a: SockeonMessage, b: SockeonMessage): boolean {
+	return a.event === b.event && a.namespace === b.namespace;
+}
@@ -0,0 +1,226 @@
+/**
+ * Sockeon Room Handle
+ *
+ * Room-scoped view over a namespace:
+ * - Listeners only see events whose data is tagged with the room
+ * - Emits are tagged with the room
+ * - All listeners are removed when the room is left, denied or forgotten
+ */
+
+import type { Presence } from "./presence";
+import type {
+	ClientEventsMap,
+	DefaultClientEvents,
+	DefaultServerEvents,
+	EmitResult,
+	EventHandler,
+	EventListener,
+	EventNames,
+	EventsMap,
+	MessageData,
+	RoomInfo,
+} from "./types";
+
+/**
+ * Namespace services a room handle relies on (provided by its namespace)
+ */
+export interface RoomHost {
+	/** Emit an application event in the namespace */
+	emit(event: string, data: MessageData): EmitResult;
+	/** Register a namespace listener */
+	listen(event: string, handler: EventHandler): void;
+	/** Remove a namespace listener */
+	unlisten(event: string, handler: EventHandler): void;
+	/** Join the room (resolves when the server confirms) */
+	join(): Promise<RoomInfo>;
+	/** Leave the room */
+	leave(): Promise<void>;
+	/** Current membership details */
+	getInfo(): RoomInfo | undefined;
+	/** Presence list of the room */
+	presence(): Presence;
+	/** The handle was closed */
+	close(): void;
+}
+
+/**
+ * Registered listener and the filtering wrapper installed on the namespace
+ */
+interface RoomListener {
+	event: string;
+	handler: EventHandler;
+	wrapper: EventHandler;
+}
+
+/**
+ * Handle for one room in one namespace
+ */
+export class Room<
+	ServerEvents extends EventsMap = DefaultServerEvents,
+	ClientEvents extends ClientEventsMap<ClientEvents> = DefaultClientEvents,
+> {
+	readonly name: string;
+	readonly namespace: string;
+	private host: RoomHost;
+	private listeners: RoomListener[] = [];
+	private closed: boolean = false;
+
+	constructor(name: string, namespace: string, host: RoomHost) {
+		this.name = name;
+		this.namespace = namespace;
+		this.host = host;
+	}
+
+	/**
+	 * Emit event to server, tagged with this room (`data.room`)
+	 */
+	emit<E extends EventNames<ClientEvents>>(
+		event: E,
+		data?: ClientEvents[E],
+	): EmitResult {
+		this.assertOpen();
+
+		const payload: MessageData = data ?? {};
+		if (Array.isArray(payload)) {
+			throw new Error("Room emits require object data");
+		}
+
+		return this.host.emit(event, { ...payload, room: this.name });
+	}
+
+	/**
+	 * Register handler for events tagged with this room
+	 */
+	on<E extends EventNames<ServerEvents> | "*">(
+		event: E,
+		handler: EventListener<ServerEvents, E>,
+	): void {
+		this.listen(event, handler as EventHandler, false);
+	}
+
+	/**
+	 * Register one-time handler for events tagged with this room
+	 */
+	once<E extends EventNames<ServerEvents> | "*">(
+		event: E,
+		handler: EventListener<ServerEvents, E>,
+	): void {
+		this.listen(event, handler as EventHandler, true);
+	}
+
+	/**
+	 * Remove handler(s) registered through this handle
+	 * If no handler provided, removes all of this handle's handlers for the event
+	 */
+	off<E extends EventNames<ServerEvents> | "*">(
+		event: E,
+		handler?: EventListener<ServerEvents, E>,
+	): void {
+		for (const listener of this.listeners) {
+			if (
+				listener.event === event &&
+				(!handler || listener.handler === (handler as EventHandler))
+			) {
+				this.remove(listener);
+			}
+		}
+	}
+
+	/**
+	 * Wait until the server has confirmed the join
+	 * Rejects if the join is denied (which also closes the handle).
+	 */
+	ready(): Promise<RoomInfo> {
+		this.assertOpen();
+		return this.host.join();
+	}
+
+	/**
+	 * Leave the room (removes all of this handle's handlers)
+	 */
+	leave(): Promise<void> {
+		this.assertOpen();
+		return this.host.leave();
+	}
+
+	/**
+	 * Get membership details (undefined once the room is no longer joined)
+	 */
+	getInfo(): RoomInfo | undefined {
+		return this.host.getInfo();
+	}
+
+	/**
+	 * Get the live presence list of this room
+	 */
+	presence(): Presence {
+		this.assertOpen();
+		return this.host.presence();
+	}
+
+	/**
+	 * Check if the handle is still usable
+	 */
+	isActive(): boolean {
+		return !this.closed;
+	}
+
+	/**
+	 * Remove all handlers and detach from the namespace
+	 * @internal
+	 */
+	close(): void {
+		if (this.closed) {
+			return;
+		}
+
+		for (const listener of this.listeners) {
+			this.host.unlisten(listener.event, listener.wrapper);
+		}
+		this.listeners = [];
+		this.closed = true;
+		this.host.close();
+	}
+
+	/**
+	 * Install a namespace listener that filters by room
+	 */
+	private listen(event: string, handler: EventHandler, once: boolean): void {
+		this.assertOpen();
+
+		if (typeof handler !== "function") {
+			throw new Error("Event handler must be a function");
+		}
+
+		const listener: RoomListener = {
+			event,
+			handler,
+			wrapper: (data) => {
+				if ((data as { room?: unknown } | null)?.room !== this.name) {
+					return;
+				}
+				if (once) {
+					this.remove(listener);
+				}
+				handler(data);
+			},
+		};
+
+		this.listeners.push(listener);
+		this.host.listen(event, listener.wrapper);
+	}
+
+	/**
+	 * Remove one listener from the namespace
+	 */
+	private remove(listener: RoomListener): void {
+		this.listeners = this.listeners.filter((entry) => entry !== listener);
+		this.host.unlisten(listener.event, listener.wrapper);
+	}
+
+	private assertOpen(): void {
+		if (this.closed) {
+			throw new Error(`Room '${this.name}' has been left`);
+		}
+	}
+}
@@ -0,0 +1,274 @@
+/**
+ * Sockeon Connection Statistics
+ *
+ * Counters collected while stats are enabled:
+ * - Messages and bytes sent and received, in total and per event
+ * - Heartbeat latency over the most recent round-trips
+ * - Uptime, downtime and disconnects by close code
+ * - Time-to-reconnect histogram
+ */
+
+import type { TrafficDirection } from "./transport";
+import type {
+	ConnectionStats,
+	EventStats,
+	LatencyStats,
+	SockeonMessage,
+	StatsConfig,
+} from "./types";
+
+/**
+ * Statistics collector (only created when stats are enabled)
+ */
+export class StatsCollector {
+	private config: StatsConfig;
+	private bounds: number[];
+	private since: number = Date.now();
+	private messagesSent: number = 0;
+	private messagesReceived: number = 0;
+	private bytesSent: number = 0;
+	private bytesReceived: number = 0;
+	private events: Map<string, EventStats> = new Map();
+	private latencies: number[] = [];
+	private latencyIndex: number = 0;
+	private uptime: number = 0;
+	private downtime: number = 0;
+	private connectedSince: number | null = null;
+	private outageSince: number | null = null;
+	private connects: number = 0;
+	private disconnects: Record<number, number> = {};
+	private reconnectCounts: number[];
+	private reconnectCount: number = 0;
+	private reconnectSum: number = 0;
+
+	constructor(config: StatsConfig) {
+		this.config = config;
+		this.bounds = [...config.reconnectBuckets].sort((a, b) => a - b);
+		this.reconnectCounts = this.emptyBuckets();
+	}
+
+	/**
+	 * Count a message written to the transport
+	 */
+	recordSent(message: SockeonMessage): void {
+		this.messagesSent++;
+		this.eventStats(message).sent++;
+	}
+
+	/**
+	 * Count a message received from the transport
+	 */
+	recordReceived(message: SockeonMessage): void {
+		this.messagesReceived++;
+		this.eventStats(message).received++;
+	}
+
+	/**
+	 * Count bytes of an encoded frame
+	 */
+	recordTraffic(direction: TrafficDirection, bytes: number): void {
+		if (direction === "sent") {
+			this.bytesSent += bytes;
+		} else {
+			this.bytesReceived += bytes;
+		}
+	}
+
+	/**
+	 * Keep a heartbeat round-trip, replacing the oldest once the window is full
+	 */
+	recordLatency(latency: number): void {
+		const { latencySamples } = this.config;
+		if (latencySamples <= 0) {
+			return;
+		}
+
+		if (this.latencies.length < latencySamples) {
+			this.latencies.push(latency);
+		} else {
+			this.latencies[this.latencyIndex] = latency;
+		}
+		this.latencyIndex = (this.latencyIndex + 1) % latencySamples;
+	}
+
+	/**
+	 * Connection established: start counting uptime and close an open outage
+	 */
+	recordConnect(): void {
+		const now = Date.now();
+
+		if (this.outageSince !== null) {
+			this.recordReconnect(now - this.outageSince);
+			this.endOutage(now);
+		}
+
+		this.connects++;
+		this.connectedSince = now;
+	}
+
+	/**
+	 * Connection closed
+	 * An established connection lost with `reconnecting` set opens an outage
+	 * that lasts until the next connection (or until the client gives up).
+	 */
+	recordDisconnect(
+		code: number,
+		wasConnected: boolean,
+		reconnecting: boolean,
+	): void {
+		const now = Date.now();
+
+		if (this.connectedSince !== null) {
+			this.uptime += now - this.connectedSince;
+			this.connectedSince = null;
+		}
+
+		if (!wasConnected) {
+			return;
+		}
+
+		this.disconnects[code] = (this.disconnects[code] ?? 0) + 1;
+		if (reconnecting && this.outageSince === null) {
+			this.outageSince = now;
+		}
+	}
+
+	/**
+	 * The client stopped reconnecting: count the outage as downtime only
+	 */
+	endOutage(now: number = Date.now()): void {
+		if (this.outageSince !== null) {
+			this.downtime += now - this.outageSince;
+			this.outageSince = null;
+		}
+	}
+
+	/**
+	 * Current statistics
+	 */
+	snapshot(): ConnectionStats {
+		const now = Date.now();
+		const events: Record<string, EventStats> = {};
+		for (const [event, counters] of this.events) {
+			events[event] = { ...counters };
+		}
+
+		return {
+			since: this.since,
+			timestamp: now,
+			messagesSent: this.messagesSent,
+			messagesReceived: this.messagesReceived,
+			bytesSent: this.bytesSent,
+			bytesReceived: this.bytesReceived,
+			events,
+			latency: this.latencyStats(),
+			uptime:
+				this.uptime +
+				(this.connectedSince !== null ? now - this.connectedSince : 0),
+			downtime:
+				this.downtime +
+				(this.outageSince !== null ? now - this.outageSince : 0),
+			connects: this.connects,
+			disconnects: { ...this.disconnects },
+			reconnects: {
+				bounds: [...this.bounds],
+				counts: [...this.reconnectCounts],
+				count: this.reconnectCount,
+				sum: this.reconnectSum,
+			},
+		};
+	}
+
+	/**
+	 * Start a new measurement
+	 * A connection or outage in progress keeps being measured from now on.
+	 */
+	reset(): void {
+		const now = Date.now();
+
+		this.since = now;
+		this.messagesSent = 0;
+		this.messagesReceived = 0;
+		this.bytesSent = 0;
+		this.bytesReceived = 0;
+		this.events.clear();
+		this.latencies = [];
+		this.latencyIndex = 0;
+		this.uptime = 0;
+		this.downtime = 0;
+		this.connectedSince = this.connectedSince !== null ? now : null;
+		this.outageSince = this.outageSince !== null ? now : null;
+		this.connects = 0;
+		this.disconnects = {};
+		this.reconnectCounts = this.emptyBuckets();
+		this.reconnectCount = 0;
+		this.reconnectSum = 0;
+	}
+
+	/**
+	 * Add a recovered outage to the histogram
+	 */
+	private recordReconnect(duration: number): void {
+		let bucket = this.bounds.findIndex((bound) => duration <= bound);
+		if (bucket === -1) {
+			bucket = this.bounds.length;
+		}
+
+		this.reconnectCounts[bucket]++;
+		this.reconnectCount++;
+		this.reconnectSum += duration;
+	}
+
+	/**
+	 * Min, max, mean and nearest-rank percentiles of the kept round-trips
+	 */
+	private latencyStats(): LatencyStats {
+		const samples = [...this.latencies].sort((a, b) => a - b);
+		const count = samples.length;
+		if (count === 0) {
+			return {
+				samples: 0,
+				min: null,
+				max: null,
+				mean: null,
+				p50: null,
+				p90: null,
+				p99: null,
+			};
+		}
+
+		const percentile = (p: number) =>
+			samples[Math.min(count - 1, Math.ceil((p / 100) * count) - 1)];
+		const sum = samples.reduce((total, latency) => total + latency, 0);
+
+		return {
+			samples: count,
+			min: samples[0],
+			max: samples[count - 1],
+			mean: Math.round(sum / count),
+			p50: percentile(50),
+			p90: percentile(90),
+			p99: percentile(99),
+		};
+	}
+
+	/**
+	 * Counters of a message's event ('namespace:event' outside the default namespace)
+	 */
+	private eventStats(message: SockeonMessage): EventStats {
+		const key = message.namespace
+			? `${message.namespace}:${message.event}`
+			: message.event;
+
+		let counters = this.events.get(key);
+		if (!counters) {
+			counters = { sent: 0, received: 0 };
+			this.events.set(key, counters);
+		}
+		return counters;
+	}
+
+	private emptyBuckets(): number[] {
+		return new Array(this.bounds.length + 1).fill(0);
+	}
+}
@@ -0,0 +1,265 @@
+/**
+ * Sockeon Event Streams
+ *
+ * Pull- and push-based views over incoming events:
+ * - EventStream: async iterator with a bounded buffer
+ * - EventObservable: minimal Observable (Symbol.observable / RxJS interop)
+ */
+
+import type { StreamOptions, StreamOverflowStrategy } from "./types";
+
+/**
+ * Event source: subscribes `next`/`complete` and returns an unsubscribe function
+ */
+export type EventSource<T> = (
+	next: (value: T) => void,
+	complete: () => void,
+) => () => void;
+
+/**
+ * Pending next() call
+ */
+interface PendingRead<T> {
+	resolve: (result: IteratorResult<T, undefined>) => void;
+	reject: (error: Error) => void;
+}
+
+/**
+ * Async iterator over incoming events
+ * Values arriving faster than they are consumed are buffered up to the
+ * high-water mark, then handled by the overflow strategy.
+ */
+export class EventStream<T> implements AsyncIterableIterator<T> {
+	private buffer: T[] = [];
+	private reads: PendingRead<T>[] = [];
+	private done: boolean = false;
+	private error: Error | null = null;
+	private droppedCount: number = 0;
+	private unsubscribe: (() => void) | null = null;
+	private highWaterMark: number;
+	private overflow: StreamOverflowStrategy;
+	private signal?: AbortSignal;
+	private onAbort = () => this.end();
+
+	constructor(source: EventSource<T>, options: StreamOptions = {}) {
+		this.highWaterMark = options.highWaterMark ?? 100;
+		this.overflow = options.overflow ?? "drop-oldest";
+		this.signal = options.signal;
+
+		if (this.signal?.aborted) {
+			this.done = true;
+			return;
+		}
+
+		this.unsubscribe = source(
+			(value) => this.push(value),
+			() => this.end(),
+		);
+		this.signal?.addEventListener("abort", this.onAbort);
+	}
+
+	/**
+	 * Number of values discarded because the buffer was full
+	 */
+	get dropped(): number {
+		return this.droppedCount;
+	}
+
+	/**
+	 * Read the next value
+	 */
+	next(): Promise<IteratorResult<T, undefined>> {
+		if (this.buffer.length > 0) {
+			return Promise.resolve({ value: this.buffer.shift() as T, done: false });
+		}
+
+		if (this.error) {
+			const error = this.error;
+			this.error = null;
+			return Promise.reject(error);
+		}
+
+		if (this.done) {
+			return Promise.resolve({ value: undefined, done: true });
+		}
+
+		return new Promise((resolve, reject) => {
+			this.reads.push({ resolve, reject });
+		});
+	}
+
+	/**
+	 * Stop the stream (called by `break` in for-await loops)
+	 */
+	return(): Promise<IteratorResult<T, undefined>> {
+		this.buffer = [];
+		this.end();
+		return Promise.resolve({ value: undefined, done: true });
+	}
+
+	[Symbol.asyncIterator](): this {
+		return this;
+	}
+
+	/**
+	 * Deliver an incoming value to a waiting reader or the buffer
+	 */
+	private push(value: T): void {
+		if (this.done) {
+			return;
+		}
+
+		const read = this.reads.shift();
+		if (read) {
+			read.resolve({ value, done: false });
+			return;
+		}
+
+		if (this.buffer.length >= this.highWaterMark) {
+			if (this.overflow === "error") {
+				this.fail(
+					new Error(
+						`Stream buffer overflow: more than ${this.highWaterMark} unread values`,
+					),
+				);
+				return;
+			}
+
+			this.droppedCount++;
+			if (this.overflow === "drop-newest") {
+				return;
+			}
+			this.buffer.shift();
+		}
+
+		this.buffer.push(value);
+	}
+
+	/**
+	 * Finish the stream; buffered values can still be read
+	 */
+	private end(): void {
+		if (this.done) {
+			return;
+		}
+
+		this.done = true;
+		this.detach();
+
+		for (const read of this.reads.splice(0)) {
+			read.resolve({ value: undefined, done: true });
+		}
+	}
+
+	/**
+	 * Finish the stream with an error reported on the next read
+	 */
+	private fail(error: Error): void {
+		this.buffer = [];
+		this.error = error;
+		this.end();
+	}
+
+	/**
+	 * Remove source and abort listeners
+	 */
+	private detach(): void {
+		this.unsubscribe?.();
+		this.unsubscribe = null;
+		this.signal?.removeEventListener("abort", this.onAbort);
+	}
+}
+
+/**
+ * Observable observer
+ */
+export interface Observer<T> {
+	next?: (value: T) => void;
+	error?: (error: unknown) => void;
+	complete?: () => void;
+}
+
+/**
+ * Observable subscription
+ */
+export interface Subscription {
+	readonly closed: boolean;
+	unsubscribe(): void;
+}
+
+/**
+ * Minimal Observable over incoming events
+ * Interoperates with RxJS and other libraries via Symbol.observable,
+ * e.g. `from(socket.observe('price.tick'))`.
+ */
+export class EventObservable<T> {
+	private source: EventSource<T>;
+
+	constructor(source: EventSource<T>) {
+		this.source = source;
+	}
+
+	/**
+	 * Subscribe to values; completes when the source completes
+	 */
+	subscribe(observer: Observer<T> | ((value: T) => void) = {}): Subscription {
+		const { next, complete } =
+			typeof observer === "function"
+				? { next: observer, complete: undefined }
+				: observer;
+
+		let unsubscribe: (() => void) | null = null;
+		const subscription = {
+			closed: false,
+			unsubscribe: () => {
+				if (subscription.closed) {
+					return;
+				}
+				subscription.closed = true;
+				unsubscribe?.();
+			},
+		};
+
+		unsubscribe = this.source(
+			(value) => {
+				if (!subscription.closed) {
+					next?.(value);
+				}
+			},
+			() => {
+				if (!subscription.closed) {
+					subscription.unsubscribe();
+					complete?.();
+				}
+			},
+		);
+
+		// Completed synchronously while subscribing
+		if (subscription.closed) {
+			unsubscribe();
+		}
+
+		return subscription;
+	}
+
+	/**
+	 * Interop hook used by RxJS when Symbol.observable is not defined
+	 */
+	["@@observable"](): this {
+		return this;
+	}
+}
+
+// Interop hook for environments that polyfill Symbol.observable
+const symbolObservable =
+	typeof Symbol === "function"
+		? (Symbol as { observable?: symbol }).observable
+		: undefined;
+
+if (symbolObservable) {
+	Object.defineProperty(EventObservable.prototype, symbolObservable, {
+		value: function (this: EventObservable<unknown>) {
+			return this;
+		},
+	});
+}
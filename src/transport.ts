@@ -4,12 +4,40 @@
  * Handles low-level WebSocket communication:
  * - Connection management
  * - Authentication via ?key= query parameter
- * - Standard WebSocket ping/pong frames
- * - Message encoding/decoding (JSON)
+ * - Message encoding/decoding (pluggable codecs, negotiated via sub-protocols)
+ * - Binary attachments (sent and received as separate binary frames)
  * - Protocol validation
  */
 
-import type { AuthConfig, SockeonMessage } from "./types";
+import {
+	byteLength,
+	extractAttachments,
+	hasBinary,
+	restoreAttachments,
+	toUint8Array,
+} from "./binary";
+import { type Codec, JsonCodec } from "./codec";
+import type {
+	AuthConfig,
+	SockeonMessage,
+	WebSocketConstructor,
+	WebSocketLike,
+} from "./types";
+
+/**
+ * WebSocket readyState values (the global WebSocket may not exist, e.g. in Node)
+ */
+const READY_STATE = {
+	CONNECTING: 0,
+	OPEN: 1,
+	CLOSING: 2,
+	CLOSED: 3,
+} as const;
+
+/**
+ * Codec used when none was negotiated (Sockeon's default JSON protocol)
+ */
+const DEFAULT_CODEC = new JsonCodec();
 
 /**
  * Transport event handlers
@@ -19,9 +47,15 @@ export interface TransportEventHandlers {
 	onMessage?: (message: SockeonMessage) => void;
 	onClose?: (code: number, reason: string) => void;
 	onError?: (error: Error) => void;
-	onPong?: () => void;
+	/** Frame sent or received, with its size in bytes (only needed for stats) */
+	onTraffic?: (direction: TrafficDirection, bytes: number) => void;
 }
 
+/**
+ * Direction of a frame
+ */
+export type TrafficDirection = "sent" | "received";
+
 /**
  * Transport options
  */
@@ -30,19 +64,60 @@ export interface TransportOptions {
 	auth?: AuthConfig;
 	query?: Record<string, string>;
 	protocols?: string | string[];
+	/** Codecs offered to the server, in order of preference */
+	codec?: Codec | Codec[];
+	WebSocket?: WebSocketConstructor;
 	debug?: boolean;
 }
 
+/**
+ * Transport contract used by Sockeon
+ * Implement this to run the client over something other than a WebSocket
+ * (see MockTransport for an in-memory implementation).
+ */
+export interface Transport {
+	/** Open the connection; report the outcome through the registered handlers */
+	connect(): void;
+	/** Send a protocol message (throws if not connected) */
+	send(message: SockeonMessage): void;
+	/** Close the connection */
+	disconnect(code?: number, reason?: string): void;
+	/**
+	 * Close immediately and report onClose synchronously (optional)
+	 * Falls back to disconnect() when not implemented.
+	 */
+	terminate?(code: number, reason: string): void;
+	/** Replace credentials used by the next connect() (optional) */
+	setAuth?(auth: AuthConfig | undefined): void;
+	/** Replace query parameters used by the next connect() (optional) */
+	setQuery?(query: Record<string, string>): void;
+	/** Replace the URL used by the next connect() (optional, enables failover) */
+	setUrl?(url: string): void;
+	/** Bytes queued but not yet sent (optional, enables flow control) */
+	getBufferedAmount?(): number;
+	/** Register event handlers */
+	on(handlers: TransportEventHandlers): void;
+	/** Check if connected */
+	isConnected(): boolean;
+}
+
+/**
+ * Creates a transport from the client's connection options
+ */
+export type TransportFactory = (options: TransportOptions) => Transport;
+
 /**
  * WebSocket transport wrapper
  */
-export class WebSocketTransport {
-	private ws: WebSocket | null = null;
+export class WebSocketTransport implements Transport {
+	private ws: WebSocketLike | null = null;
 	private handlers: TransportEventHandlers = {};
 	private options: TransportOptions;
-	private pingInterval: number | null = null;
-	private pongTimeout: number | null = null;
-	private lastPongTime: number = 0;
+	private codec: Codec = DEFAULT_CODEC;
+	private pendingBinary: {
+		message: SockeonMessage;
+		buffers: Uint8Array[];
+	} | null = null;
 	private debug: boolean = false;
 
 	constructor(options: TransportOptions) {
@@ -71,11 +146,52 @@ export class WebSocketTransport {
 		return url.toString();
 	}
 
+	/**
+	 * Configured codecs, in order of preference
+	 */
+	private getCodecs(): Codec[] {
+		const { codec } = this.options;
+		if (!codec) {
+			return [];
+		}
+		return Array.isArray(codec) ? codec : [codec];
+	}
+
+	/**
+	 * Sub-protocols to request: codec protocols first, then user protocols
+	 */
+	private buildProtocols(): string | string[] | undefined {
+		const codecProtocols = this.getCodecs().map((codec) => codec.protocol);
+		if (codecProtocols.length === 0) {
+			return this.options.protocols;
+		}
+
+		const { protocols = [] } = this.options;
+		return [
+			...codecProtocols,
+			...(Array.isArray(protocols) ? protocols : [protocols]),
+		];
+	}
+
+	/**
+	 * Pick the codec for the sub-protocol selected by the server
+	 * Servers that don't negotiate speak Sockeon's default JSON protocol.
+	 * Only reached without a selection where the WebSocket implementation
+	 * accepts that (browsers); the `ws` package fails the handshake with
+	 * "Server sent no subprotocol" when protocols were offered.
+	 */
+	private negotiateCodec(protocol: string | undefined): Codec {
+		return (
+			this.getCodecs().find((codec) => codec.protocol === protocol) ??
+			DEFAULT_CODEC
+		);
+	}
+
 	/**
 	 * Connect to WebSocket server
 	 */
 	connect(): void {
-		if (this.ws && this.ws.readyState !== WebSocket.CLOSED) {
+		if (this.ws && this.ws.readyState !== READY_STATE.CLOSED) {
 			this.log("Already connected or connecting");
 			return;
 		}
@@ -84,7 +200,16 @@ export class WebSocketTransport {
 		this.log("Connecting to:", url.replace(/key=[^&]+/, "key=***"));
 
 		try {
-			this.ws = new WebSocket(url, this.options.protocols);
+			const WebSocketImpl = this.options.WebSocket ?? globalThis.WebSocket;
+			if (!WebSocketImpl) {
+				throw new Error(
+					"No WebSocket implementation available: pass one via the WebSocket option",
+				);
+			}
+
+			this.ws = new WebSocketImpl(url, this.buildProtocols());
+			this.ws.binaryType = "arraybuffer";
+			this.pendingBinary = null;
 			this.setupEventHandlers();
 		} catch (error) {
 			this.log("Connection error:", error);
@@ -99,8 +224,8 @@ export class WebSocketTransport {
 		if (!this.ws) return;
 
 		this.ws.onopen = () => {
-			this.log("WebSocket connected");
-			this.lastPongTime = Date.now();
+			this.codec = this.negotiateCodec(this.ws?.protocol);
+			this.log("WebSocket connected, codec:", this.codec.name);
 			this.handlers.onOpen?.();
 		};
 
@@ -110,7 +235,8 @@ export class WebSocketTransport {
 
 		this.ws.onclose = (event: CloseEvent) => {
 			this.log("WebSocket closed:", event.code, event.reason);
-			this.stopHeartbeat();
+			this.ws = null;
+			this.pendingBinary = null;
 			this.handlers.onClose?.(event.code, event.reason);
 		};
 
@@ -124,18 +250,30 @@ export class WebSocketTransport {
 	/**
 	 * Handle incoming message
 	 */
-	private handleMessage(data: string | ArrayBuffer | Blob): void {
-		// Handle binary data (ping/pong frames)
-		if (data instanceof ArrayBuffer || data instanceof Blob) {
-			this.log("Received binary frame (likely pong)");
-			this.lastPongTime = Date.now();
-			this.handlers.onPong?.();
+	private handleMessage(
+		data: string | ArrayBuffer | ArrayBufferView | Blob,
+	): void {
+		if (typeof Blob !== "undefined" && data instanceof Blob) {
+			this.log("Received Blob frame; binaryType must be 'arraybuffer'");
+			this.handlers.onError?.(new Error("Unsupported binary frame type"));
+			return;
+		}
+
+		const frame =
+			typeof data === "string"
+				? data
+				: toUint8Array(data as ArrayBuffer | ArrayBufferView);
+		this.handlers.onTraffic?.("received", byteLength(frame));
+
+		// With a text codec, binary frames carry attachments of the preceding envelope
+		if (typeof frame !== "string" && !this.codec.binary) {
+			this.handleAttachment(frame);
 			return;
 		}
 
-		// Parse JSON message
+		// Decode message
 		try {
-			const message = JSON.parse(data);
+			const message = this.codec.decode(frame);
 
 			// Validate message structure
 			if (!this.isValidMessage(message)) {
@@ -144,6 +282,21 @@ export class WebSocketTransport {
 				return;
 			}
 
+			if (this.pendingBinary) {
+				this.log("Incomplete binary message discarded");
+				this.pendingBinary = null;
+				this.handlers.onError?.(
+					new Error("Binary attachments missing for previous message"),
+				);
+			}
+
+			// Wait for the binary frames that belong to this message
+			if (typeof message.attachments === "number" && message.attachments > 0) {
+				this.log("Awaiting binary attachments:", message.attachments);
+				this.pendingBinary = { message, buffers: [] };
+				return;
+			}
+
 			this.log("Received message:", message.event, message.data);
 			this.handlers.onMessage?.(message);
 		} catch (error) {
@@ -152,6 +305,29 @@ export class WebSocketTransport {
 		}
 	}
 
+	/**
+	 * Handle a binary attachment frame of the pending message
+	 */
+	private handleAttachment(data: Uint8Array): void {
+		const pending = this.pendingBinary;
+		if (!pending) {
+			this.log("Received unexpected binary frame");
+			this.handlers.onError?.(new Error("Unexpected binary frame"));
+			return;
+		}
+
+		pending.buffers.push(data);
+		if (pending.buffers.length < (pending.message.attachments ?? 0)) {
+			return;
+		}
+
+		this.pendingBinary = null;
+		const message = restoreAttachments(pending.message, pending.buffers);
+
+		this.log("Received message:", message.event, message.data);
+		this.handlers.onMessage?.(message);
+	}
+
 	/**
 	 * Validate message structure matches Sockeon protocol
 	 * Server expects: { "event": "string", "data": {} }
@@ -180,14 +356,26 @@ export class WebSocketTransport {
 	 * Send message to server
 	 */
 	send(message: SockeonMessage): void {
-		if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+		if (!this.ws || this.ws.readyState !== READY_STATE.OPEN) {
 			throw new Error("WebSocket is not connected");
 		}
 
 		try {
-			const json = JSON.stringify(message);
+			// Binary codecs encode binary values inline
+			const { message: envelope, attachments } =
+				!this.codec.binary && hasBinary(message.data)
+					? extractAttachments(message)
+					: { message, attachments: [] };
+
 			this.log("Sending message:", message.event, message.data);
-			this.ws.send(json);
+			const frame = this.codec.encode(envelope);
+			this.ws.send(frame);
+			this.handlers.onTraffic?.("sent", byteLength(frame));
+
+			for (const attachment of attachments) {
+				this.ws.send(attachment);
+				this.handlers.onTraffic?.("sent", byteLength(attachment));
+			}
 		} catch (error) {
 			this.log("Failed to send message:", error);
 			throw new Error("Failed to send message");
@@ -195,75 +383,74 @@ export class WebSocketTransport {
 	}
 
 	/**
-	 * Send ping frame to server
-	 * Note: Browser WebSocket API doesn't expose ping control directly,
-	 * but the browser automatically handles ping/pong frames.
-	 * This is a placeholder for manual heartbeat if needed.
+	 * Disconnect from server
+	 * The socket is detached first so its late close event cannot be mistaken
+	 * for one of a newer connection; onClose is reported immediately.
 	 */
-	sendPing(): void {
-		if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
-			return;
+	disconnect(code: number = 1000, reason: string = "Normal closure"): void {
+		if (this.ws) {
+			this.log("Disconnecting:", code, reason);
+			this.release(code, reason);
 		}
-
-		// Browser WebSocket automatically handles ping/pong
-		// We just update the timestamp to track connectivity
-		this.log("Heartbeat check");
 	}
 
 	/**
-	 * Start heartbeat (periodic ping)
+	 * Force-close the connection without waiting for the closing handshake
+	 * Used when the peer is unresponsive (e.g. half-open connection).
+	 * onClose is reported immediately with the given code and reason.
 	 */
-	startHeartbeat(interval: number, timeout: number): void {
-		this.stopHeartbeat();
-
-		this.pingInterval = window.setInterval(() => {
-			const timeSinceLastPong = Date.now() - this.lastPongTime;
-
-			// Check if we've received pong recently
-			if (timeSinceLastPong > timeout) {
-				this.log("Heartbeat timeout - no pong received");
-				this.disconnect(1000, "Heartbeat timeout");
-				return;
-			}
-
-			this.sendPing();
-		}, interval);
-
-		this.log("Heartbeat started:", interval, "ms");
+	terminate(code: number, reason: string): void {
+		if (this.ws) {
+			this.log("Terminating:", code, reason);
+			this.release(code, reason);
+		}
 	}
 
 	/**
-	 * Stop heartbeat
+	 * Detach and close the current socket, then report onClose
 	 */
-	stopHeartbeat(): void {
-		if (this.pingInterval !== null) {
-			clearInterval(this.pingInterval);
-			this.pingInterval = null;
-			this.log("Heartbeat stopped");
+	private release(code: number, reason: string): void {
+		const ws = this.ws;
+		if (!ws) {
+			return;
 		}
 
-		if (this.pongTimeout !== null) {
-			clearTimeout(this.pongTimeout);
-			this.pongTimeout = null;
+		ws.onopen = null;
+		ws.onmessage = null;
+		ws.onclose = null;
+		ws.onerror = null;
+		this.ws = null;
+		this.pendingBinary = null;
+
+		if (
+			ws.readyState === READY_STATE.OPEN ||
+			ws.readyState === READY_STATE.CONNECTING
+		) {
+			ws.close(code, reason);
 		}
+
+		this.handlers.onClose?.(code, reason);
 	}
 
 	/**
-	 * Disconnect from server
+	 * Replace credentials used by the next connect()
 	 */
-	disconnect(code: number = 1000, reason: string = "Normal closure"): void {
-		this.stopHeartbeat();
+	setAuth(auth: AuthConfig | undefined): void {
+		this.options = { ...this.options, auth };
+	}
 
-		if (this.ws) {
-			if (
-				this.ws.readyState === WebSocket.OPEN ||
-				this.ws.readyState === WebSocket.CONNECTING
-			) {
-				this.log("Disconnecting:", code, reason);
-				this.ws.close(code, reason);
-			}
-			this.ws = null;
-		}
+	/**
+	 * Replace query parameters used by the next connect()
+	 */
+	setQuery(query: Record<string, string>): void {
+		this.options = { ...this.options, query };
+	}
+
+	/**
+	 * Replace the URL used by the next connect()
+	 */
+	setUrl(url: string): void {
+		this.options = { ...this.options, url };
 	}
 
 	/**
@@ -273,18 +460,25 @@ export class WebSocketTransport {
 		this.handlers = { ...this.handlers, ...handlers };
 	}
 
+	/**
+	 * Bytes queued by the WebSocket but not yet transmitted
+	 */
+	getBufferedAmount(): number {
+		return this.ws?.bufferedAmount ?? 0;
+	}
+
 	/**
 	 * Get current WebSocket state
 	 */
 	getState(): number {
-		return this.ws?.readyState ?? WebSocket.CLOSED;
+		return this.ws?.readyState ?? READY_STATE.CLOSED;
 	}
 
 	/**
 	 * Check if connected
 	 */
 	isConnected(): boolean {
-		return this.ws?.readyState === WebSocket.OPEN;
+		return this.ws?.readyState === READY_STATE.OPEN;
 	}
 
 	/**
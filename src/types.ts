@@ -9,6 +9,54 @@
  * - Rooms: supported per namespace
  */
 
+import type { Codec } from "./codec";
+import type { EnvironmentProbe } from "./environment";
+import type { Presence } from "./presence";
+import type { Room } from "./room";
+import type { Transport, TransportFactory } from "./transport";
+
+/**
+ * Options for waitFor()
+ */
+export interface WaitForOptions<T = unknown> {
+	/** Reject if no matching event arrives within this many milliseconds (0 = no timeout) */
+	timeout?: number;
+	/** Only resolve for payloads that pass this check */
+	filter?: (data: T) => boolean;
+	/** Cancel waiting */
+	signal?: AbortSignal;
+}
+
+/**
+ * What a stream does when its buffer is full
+ * - 'drop-oldest': discard the oldest unread value
+ * - 'drop-newest': discard the incoming value
+ * - 'error': end the stream with an error
+ */
+export type StreamOverflowStrategy = "drop-oldest" | "drop-newest" | "error";
+
+/**
+ * Options for stream()
+ */
+export interface StreamOptions {
+	/** Maximum number of unread values kept in the buffer (default: 100) */
+	highWaterMark?: number;
+	/** What to do when the buffer is full (default: 'drop-oldest') */
+	overflow?: StreamOverflowStrategy;
+	/** Stop the stream */
+	signal?: AbortSignal;
+}
+
+/**
+ * Binary value that can be sent inside a payload
+ */
+export type BinaryData = ArrayBuffer | ArrayBufferView | Blob;
+
+/**
+ * Message payload (object or array)
+ */
+export type MessageData = Record<string, unknown> | unknown[];
+
 /**
  * Sockeon message format - matches server protocol exactly
  * Server validates: { "event": string (regex: /^[a-zA-Z0-9._-]+$/), "data": object|array }
@@ -17,7 +65,299 @@ export interface SockeonMessage {
 	/** Event name (alphanumeric + ._- only) */
 	event: string;
 	/** Event payload (must be object or array) */
-	data: Record<string, unknown> | unknown[];
+	data: MessageData;
+	/** Correlation id for acknowledgements (echoed back by the server in its reply) */
+	id?: string;
+	/** Target namespace (omitted for the client's default namespace) */
+	namespace?: string;
+	/** Number of binary frames following this message (set by the transport) */
+	attachments?: number;
+	/** Sequence number (set when delivery tracking is enabled) */
+	seq?: number;
+}
+
+/**
+ * Message middleware
+ * Return a message to replace it, nothing to pass it on unchanged, or null
+ * to drop it. Throwing (or rejecting) reports the message on the 'error' event.
+ */
+export type Middleware = (
+	message: SockeonMessage,
+) => SockeonMessage | null | void | PromiseLike<SockeonMessage | null | void>;
+
+/**
+ * Middlewares registered with use()
+ */
+export interface MiddlewareConfig {
+	/** Runs on messages from the server before they reach handlers */
+	incoming?: Middleware;
+	/** Runs on emitted messages before they are sent (or queued) */
+	outgoing?: Middleware;
+}
+
+/**
+ * Value types understood by structural schemas
+ */
+export type SchemaType =
+	| "string"
+	| "number"
+	| "boolean"
+	| "object"
+	| "array"
+	| "binary"
+	| "null"
+	| "any";
+
+/**
+ * Structural schema
+ * - A type name ("string"), optional with a "?" suffix ("string?")
+ * - An object of property schemas; a "?" key suffix marks it optional
+ * - A one-element array describing every item ([] accepts any array)
+ */
+export type StructuralSchema =
+	| SchemaType
+	| `${SchemaType}?`
+	| StructuralSchema[]
+	| { [key: string]: StructuralSchema };
+
+/**
+ * Problem found while validating a payload
+ */
+export interface ValidationIssue {
+	/** Location of the problem inside the payload */
+	path: (string | number)[];
+	message: string;
+}
+
+/**
+ * Result of a Standard Schema-style validate() call
+ */
+export type SchemaResult =
+	| { value: unknown; issues?: undefined }
+	| {
+			issues: ReadonlyArray<{
+				message: string;
+				path?: ReadonlyArray<PropertyKey | { key: PropertyKey }>;
+			}>;
+	  };
+
+/**
+ * Object with a Standard Schema-style validate() method
+ * The returned value replaces the payload (schemas may transform it).
+ */
+export interface SchemaValidator {
+	validate(value: unknown): SchemaResult | Promise<SchemaResult>;
+}
+
+/**
+ * Payload schema: structural schema, type guard, or validator object
+ * (a Standard Schema, or anything with a compatible validate() method)
+ */
+export type Schema =
+	| StructuralSchema
+	| ((data: unknown) => boolean)
+	| SchemaValidator
+	| { readonly "~standard": SchemaValidator };
+
+/**
+ * Per-event schemas registered with the schemas option or registerSchemas()
+ */
+export interface SchemaConfig {
+	/** Validate messages from the server before they reach handlers */
+	incoming?: Record<string, Schema>;
+	/** Validate emitted payloads (emit() throws when invalid) */
+	outgoing?: Record<string, Schema>;
+}
+
+/**
+ * What happened to an emitted message
+ * - sent: handed to the connection
+ * - queued: buffered in the offline queue
+ * - throttled: held by the rate limiter, sent when tokens are available
+ * - coalesced: held by the rate limiter; only the latest pending payload is sent
+ * - dropped: discarded by the rate limiter, outgoing middleware or a full queue
+ *
+ * While async outgoing middleware is still running, the message is reported
+ * as sent (queued when offline); its final outcome is not known yet.
+ */
+export type EmitStatus =
+	| "sent"
+	| "queued"
+	| "throttled"
+	| "coalesced"
+	| "dropped";
+
+/**
+ * Result of emit()
+ */
+export interface EmitResult {
+	status: EmitStatus;
+	/** Transport buffer is above the high-water mark: wait for 'drain' */
+	backpressure: boolean;
+}
+
+/**
+ * What to do with an emit that exceeds its rate limit
+ */
+export type RateLimitMode = "throw" | "drop" | "queue" | "coalesce";
+
+/**
+ * Token-bucket rate limit
+ */
+export interface RateLimit {
+	/** Tokens refilled per second */
+	rate: number;
+	/** Bucket capacity, i.e. the allowed burst (default: rate) */
+	burst?: number;
+	/** Behavior when the bucket is empty (default: 'throw') */
+	mode?: RateLimitMode;
+	/** Maximum messages held in 'queue' mode; further ones are dropped (default: 100) */
+	maxPending?: number;
+}
+
+/**
+ * Rate limits for emit()
+ */
+export interface RateLimitConfig {
+	/** Limit shared by all events */
+	global?: RateLimit;
+	/** Limits per event name (applied in addition to the global limit) */
+	events?: Record<string, RateLimit>;
+}
+
+/**
+ * Outbound flow control configuration
+ */
+export interface FlowControlConfig {
+	/** Watch the transport's buffered amount */
+	enabled: boolean;
+	/** Bytes buffered above which emits report backpressure */
+	highWaterMark: number;
+	/** Bytes buffered below which 'drain' is emitted */
+	lowWaterMark: number;
+	/** Milliseconds between buffer checks while backpressured */
+	checkInterval: number;
+}
+
+/**
+ * What happens to pending emitLatest() values when the connection drops
+ */
+export type EmitLatestDisconnectMode = "drop" | "hold";
+
+/**
+ * Latest-value emit configuration
+ */
+export interface EmitLatestConfig {
+	/** Default milliseconds between sends per event/key */
+	interval: number;
+	/** Discard pending values, or hold the latest ones and send them on reconnect */
+	onDisconnect: EmitLatestDisconnectMode;
+}
+
+/**
+ * Options for emitLatest()
+ */
+export interface EmitLatestOptions {
+	/** Milliseconds between sends (default: emitLatest.interval option) */
+	interval?: number;
+	/** Coalesce per key as well as per event, e.g. a document id */
+	key?: string | number;
+	/** Send the first value right away instead of after the interval (default: true) */
+	leading?: boolean;
+}
+
+/**
+ * Multi-URL failover configuration
+ */
+export interface FailoverConfig {
+	/** Milliseconds a failed endpoint is avoided */
+	cooldown: number;
+	/** Milliseconds between primary probes while on a fallback (0 = never) */
+	probeInterval: number;
+}
+
+/**
+ * Context passed to resolveUrl
+ */
+export interface ResolveUrlContext {
+	/** Reconnection attempt (0 for the initial connection) */
+	attempt: number;
+	/** URL of the previous connection attempt (null before the first) */
+	previousUrl: string | null;
+	/** Close code of the last disconnect (null if none) */
+	closeCode: number | null;
+}
+
+/**
+ * Resolves the URL for a connection attempt
+ */
+export type UrlResolver = (
+	context: ResolveUrlContext,
+) => string | Promise<string>;
+
+/**
+ * Health of a failover endpoint
+ */
+export interface EndpointHealth {
+	url: string;
+	/** Not in its failure cooldown */
+	healthy: boolean;
+	/** Consecutive failures */
+	failures: number;
+	lastFailureAt: number | null;
+	lastSuccessAt: number | null;
+}
+
+/**
+ * Why the active endpoint changed
+ * - 'failover': moved away from a failing endpoint
+ * - 'primary': back on the primary (probe succeeded or it recovered)
+ * - 'resolved': resolveUrl returned a different URL
+ */
+export type EndpointChangeReason = "failover" | "primary" | "resolved";
+
+/**
+ * Presence configuration
+ */
+export interface PresenceConfig {
+	/**
+	 * Milliseconds after which a member not heard from is evicted; our own
+	 * metadata is re-published every timeout / 2 (0 = never evict)
+	 */
+	timeout: number;
+}
+
+/**
+ * Metadata a client publishes about itself (status, cursor, device, ...)
+ */
+export type PresenceMeta = Record<string, unknown>;
+
+/**
+ * Member of a room's presence list
+ */
+export interface PresenceMember {
+	/** Member id assigned by the server */
+	id: string;
+	meta: PresenceMeta;
+	/** Timestamp of the last presence event about this member */
+	lastSeen: number;
+}
+
+/**
+ * Why a member left the presence list
+ * - 'left': the server reported the member leaving
+ * - 'timeout': not heard from within presence.timeout
+ * - 'sync': missing from a full member list sent by the server
+ * - 'disconnect': disconnect() was called
+ */
+export type PresenceLeaveReason = "left" | "timeout" | "sync" | "disconnect";
+
+/**
+ * Options for emitWithAck()
+ */
+export interface AckOptions {
+	/** Milliseconds to wait for the server reply (default: ackTimeout option) */
+	timeout?: number;
 }
 
 /**
@@ -25,6 +365,53 @@ export interface SockeonMessage {
  */
 export type EventHandler = (data: unknown) => void;
 
+/**
+ * Map of event names to payload types
+ *
+ * @example
+ * ```ts
+ * interface ServerEvents {
+ *   'chat.message': { user: string; body: string };
+ * }
+ * ```
+ */
+export type EventsMap = object;
+
+/**
+ * Default map for incoming events (any event, unknown payload)
+ */
+export type DefaultServerEvents = Record<string, unknown>;
+
+/**
+ * Default map for outgoing events (any event, object or array payload)
+ */
+export type DefaultClientEvents = Record<string, MessageData>;
+
+/**
+ * Constraint for outgoing event maps (every payload must be MessageData)
+ */
+export type ClientEventsMap<Events> = { [K in keyof Events]: MessageData };
+
+/**
+ * Event names of a map
+ */
+export type EventNames<Events extends EventsMap> = keyof Events & string;
+
+/**
+ * Payload type of an event ('*' and unknown names resolve to unknown)
+ */
+export type EventPayload<
+	Events extends EventsMap,
+	Event extends string,
+> = Event extends keyof Events ? Events[Event] : unknown;
+
+/**
+ * Typed handler for an event
+ */
+export type EventListener<Events extends EventsMap, Event extends string> = (
+	data: EventPayload<Events, Event>,
+) => void;
+
 /**
  * Connection state
  */
@@ -49,20 +436,165 @@ export interface ReconnectConfig {
 	maxDelay: number;
 	/** Delay multiplier for exponential backoff */
 	factor: number;
+	/** Randomization applied to the backoff delay (default: 'none') */
+	jitter: ReconnectJitter;
+	/**
+	 * Custom delay strategy, replacing delay/factor/maxDelay/jitter
+	 * Return the delay in ms, or null to stop reconnecting.
+	 */
+	backoff?: ReconnectBackoff;
+	/** Retry policy per close code, merged over CLOSE_CODE_POLICY */
+	closeCodes: Record<number, CloseCodePolicy>;
 }
 
+/**
+ * Backoff jitter mode
+ * - none: delay * factor ** (attempt - 1), capped at maxDelay
+ * - full: random between 0 and the backoff delay
+ * - equal: half the backoff delay plus a random share of the other half
+ * - decorrelated: random between delay and 3x the previous delay, capped
+ */
+export type ReconnectJitter = "none" | "full" | "equal" | "decorrelated";
+
+/**
+ * Custom reconnect delay strategy
+ * `attempt` is the upcoming attempt (starting at 1), `lastCloseCode` the
+ * code of the last close (null if none).
+ */
+export type ReconnectBackoff = (
+	attempt: number,
+	lastCloseCode: number | null,
+) => number | null;
+
+/**
+ * What to do after a close code: reconnect, or give up
+ */
+export type CloseCodePolicy = "retry" | "stop";
+
+/**
+ * Why reconnection was given up
+ */
+export type ReconnectFailedReason = "max_attempts" | "close_code" | "backoff";
+
 /**
  * Ping/Pong heartbeat configuration
+ * Pings are sent as regular protocol messages ({ event: 'ping', data: { timestamp } })
+ * and the server is expected to reply with a 'pong' event, so heartbeats are
+ * opt-in: servers that only answer WebSocket ping frames would be timed out.
  */
 export interface HeartbeatConfig {
-	/** Enable periodic ping frames */
+	/** Enable periodic ping events (default: false) */
 	enabled: boolean;
 	/** Ping interval in milliseconds */
 	interval: number;
 	/** Pong timeout in milliseconds */
 	timeout: number;
+	/** Event name sent to the server as ping (default: 'ping') */
+	pingEvent: string;
+	/** Event name the server replies with (default: 'pong') */
+	pongEvent: string;
 }
 
+/**
+ * Outbound queue overflow policy
+ * - 'drop-oldest': discard the oldest queued message to make room
+ * - 'drop-newest': discard the message being emitted
+ * - 'reject': throw from emit()
+ */
+export type QueueOverflowPolicy = "drop-oldest" | "drop-newest" | "reject";
+
+/**
+ * Reason a queued message was discarded
+ */
+export type QueueDropReason = "overflow" | "expired" | "cleared";
+
+/**
+ * Offline outbound queue configuration
+ */
+export interface QueueConfig {
+	/** Buffer emits while not connected instead of throwing */
+	enabled: boolean;
+	/** Maximum number of queued messages (0 = unlimited) */
+	maxSize: number;
+	/** What to do when the queue is full */
+	overflow: QueueOverflowPolicy;
+	/** Time-to-live per message in milliseconds (0 = never expires) */
+	ttl: number;
+}
+
+/**
+ * Sequence numbers, dedup and resume configuration
+ */
+export interface DeliveryConfig {
+	/** Number outgoing messages and drop duplicate incoming ones */
+	enabled: boolean;
+	/** Number of recent incoming sequence numbers remembered for dedup */
+	dedupWindow: number;
+	/** Query parameter carrying the last seen sequence number on reconnect */
+	resumeParam: string;
+}
+
+/**
+ * Network and visibility awareness configuration
+ */
+export interface EnvironmentConfig {
+	/** React to network and visibility changes */
+	enabled: boolean;
+	/** Pause reconnect attempts while offline; reconnect immediately when back online */
+	pauseWhenOffline: boolean;
+	/** Stop heartbeats while the page is hidden */
+	suspendHeartbeatWhenHidden: boolean;
+	/** Ping the server when the page becomes visible or the network goes offline */
+	verifyConnection: boolean;
+	/** Environment probe (default: BrowserEnvironment) */
+	probe?: EnvironmentProbe;
+}
+
+/**
+ * Connection statistics configuration
+ */
+export interface StatsConfig {
+	/** Collect connection statistics (getStats(), 'stats' event) */
+	enabled: boolean;
+	/** Emit a 'stats' event every interval milliseconds while connected (0 = never) */
+	interval: number;
+	/** Number of recent heartbeat round-trips kept for latency percentiles */
+	latencySamples: number;
+	/** Upper bounds in milliseconds of the time-to-reconnect histogram buckets */
+	reconnectBuckets: number[];
+}
+
+/**
+ * Minimal WebSocket surface used by the transport
+ * Satisfied by the browser WebSocket and by Node implementations such as `ws`.
+ */
+export interface WebSocketLike {
+	readonly readyState: number;
+	readonly protocol?: string;
+	readonly bufferedAmount?: number;
+	binaryType?: string;
+	// Event shapes differ between implementations; handlers narrow their own
+	onopen: ((event: never) => void) | null;
+	onmessage: ((event: never) => void) | null;
+	onclose: ((event: never) => void) | null;
+	onerror: ((event: never) => void) | null;
+	send(data: string | BinaryData): void;
+	close(code?: number, reason?: string): void;
+}
+
+/**
+ * WebSocket constructor (global WebSocket, `ws` package, ...)
+ */
+export type WebSocketConstructor = new (
+	url: string,
+	protocols?: string | string[],
+) => WebSocketLike;
+
+/**
+ * Timer handle returned by setTimeout/setInterval (number in browsers, object in Node)
+ */
+export type TimerHandle = ReturnType<typeof setTimeout>;
+
 /**
  * Authentication options
  * Sockeon uses query parameters for authentication
@@ -70,14 +602,37 @@ export interface HeartbeatConfig {
 export interface AuthConfig {
 	/** Authentication token (sent as ?key= query parameter) */
 	token?: string;
+	/**
+	 * Token provider, called before every connect and reconnect
+	 * Takes precedence over `token`.
+	 */
+	getToken?: () => string | Promise<string>;
+	/**
+	 * Close codes, or `code` values of server 'error' events, that mean the
+	 * credentials were rejected (default: [4001, 401, 403])
+	 */
+	rejectCodes?: Array<number | string>;
 }
 
 /**
  * Main client configuration options
  */
 export interface SockeonOptions {
-	/** WebSocket URL (ws:// or wss://) */
-	url: string;
+	/**
+	 * WebSocket URL (ws:// or wss://), or URLs in order of preference
+	 * With several URLs the first is the primary; reconnects fail over to
+	 * the others and fail back once the primary is reachable again.
+	 */
+	url?: string | string[];
+
+	/**
+	 * Resolve the URL before every connection attempt (replaces url-based
+	 * failover; url is then optional)
+	 */
+	resolveUrl?: UrlResolver;
+
+	/** Multi-URL failover configuration */
+	failover?: Partial<FailoverConfig>;
 
 	/** Namespace to connect to (default: '/') */
 	namespace?: string;
@@ -88,15 +643,81 @@ export interface SockeonOptions {
 	/** Auto-reconnect configuration */
 	reconnect?: boolean | Partial<ReconnectConfig>;
 
-	/** Heartbeat/ping configuration */
+	/** Ping/pong heartbeat events (default: disabled) */
 	heartbeat?: boolean | Partial<HeartbeatConfig>;
 
+	/** Offline outbound queue configuration */
+	queue?: boolean | Partial<QueueConfig>;
+
+	/** Network and visibility awareness (default: disabled) */
+	environment?: boolean | Partial<EnvironmentConfig>;
+
+	/** Rate limits for emit() (default: none) */
+	rateLimit?: RateLimitConfig;
+
+	/** Outbound flow control based on the transport's buffered amount */
+	flowControl?: boolean | Partial<FlowControlConfig>;
+
+	/** emitLatest() defaults and disconnect behavior */
+	emitLatest?: Partial<EmitLatestConfig>;
+
+	/** Presence tracking configuration */
+	presence?: Partial<PresenceConfig>;
+
+	/** Sequence numbers, dedup and resume-from-offset (default: disabled) */
+	delivery?: boolean | Partial<DeliveryConfig>;
+
+	/** Connection statistics (default: disabled) */
+	stats?: boolean | Partial<StatsConfig>;
+
+	/**
+	 * Milliseconds connect() waits for a connection, retries included,
+	 * before rejecting and aborting (0 = no timeout, default: 0)
+	 */
+	connectTimeout?: number;
+
+	/** Re-join rooms automatically after a reconnect (default: true) */
+	rejoinRooms?: boolean;
+
+	/**
+	 * Wait for the server to confirm room joins and leaves (default: true)
+	 * Set to false for optimistic membership that is never confirmed.
+	 */
+	confirmRooms?: boolean;
+
+	/** Default acknowledgement timeout in milliseconds (default: 10000) */
+	ackTimeout?: number;
+
+	/** Per-event payload schemas */
+	schemas?: SchemaConfig;
+
 	/** Additional query parameters */
 	query?: Record<string, string>;
 
 	/** WebSocket protocols */
 	protocols?: string | string[];
 
+	/**
+	 * Message codec(s) offered to the server, in order of preference
+	 * Negotiated via WebSocket sub-protocols (default: JSON without
+	 * negotiation). Browsers fall back to JSON when the server selects none;
+	 * the Node `ws` client fails that handshake instead, so only configure
+	 * codecs for servers that negotiate them.
+	 */
+	codec?: Codec | Codec[];
+
+	/**
+	 * WebSocket implementation (default: global WebSocket)
+	 * Pass e.g. the `ws` package constructor in environments without one.
+	 */
+	WebSocket?: WebSocketConstructor;
+
+	/**
+	 * Custom transport instance or factory (default: WebSocketTransport)
+	 * The factory receives url, auth, query, protocols, codec, WebSocket and debug.
+	 */
+	transport?: Transport | TransportFactory;
+
 	/** Debug logging */
 	debug?: boolean;
 }
@@ -105,13 +726,33 @@ export interface SockeonOptions {
  * Normalized client configuration (internal use)
  */
 export interface NormalizedSockeonOptions {
+	/** Primary URL ('' when only resolveUrl is set) */
 	url: string;
+	urls: string[];
+	resolveUrl?: UrlResolver;
+	failover: FailoverConfig;
 	namespace: string;
 	auth?: AuthConfig;
 	reconnect: ReconnectConfig;
 	heartbeat: HeartbeatConfig;
+	queue: QueueConfig;
+	environment: EnvironmentConfig;
+	delivery: DeliveryConfig;
+	stats: StatsConfig;
+	rateLimit?: RateLimitConfig;
+	flowControl: FlowControlConfig;
+	emitLatest: EmitLatestConfig;
+	presence: PresenceConfig;
+	connectTimeout: number;
+	rejoinRooms: boolean;
+	confirmRooms: boolean;
+	ackTimeout: number;
+	schemas?: SchemaConfig;
 	query: Record<string, string>;
 	protocols?: string | string[];
+	codec?: Codec | Codec[];
+	WebSocket?: WebSocketConstructor;
+	transport?: Transport | TransportFactory;
 	debug: boolean;
 }
 
@@ -125,6 +766,245 @@ export interface SockeonError {
 	details?: unknown;
 }
 
+/**
+ * 'connect' event data
+ */
+export interface ConnectEventData {
+	namespace: string;
+	timestamp: number;
+}
+
+/**
+ * 'disconnect' event data
+ */
+export interface DisconnectEventData {
+	code: number;
+	reason: string;
+}
+
+/**
+ * 'reconnect' event data
+ */
+export interface ReconnectEventData {
+	/** Attempts it took to reconnect */
+	attempts: number;
+}
+
+/**
+ * 'reconnect_attempt' event data
+ */
+export interface ReconnectAttemptEventData {
+	attempt: number;
+	delay: number;
+}
+
+/**
+ * 'reconnect_failed' event data
+ */
+export interface ReconnectFailedEventData {
+	attempts: number;
+	maxAttempts: number;
+	reason: ReconnectFailedReason;
+	/** Close code of the last disconnect (null if none) */
+	code: number | null;
+}
+
+/**
+ * 'auth_error' event data
+ */
+export interface AuthErrorEventData {
+	/** Close code or server error code that rejected the credentials */
+	code?: number | string;
+	message: string;
+	timestamp: number;
+}
+
+/**
+ * 'latency' event data
+ */
+export interface LatencyEventData {
+	/** Round-trip time in milliseconds */
+	latency: number;
+	timestamp: number;
+}
+
+/**
+ * Heartbeat round-trip statistics over the recent samples
+ * (all null until a round-trip has been measured)
+ */
+export interface LatencyStats {
+	samples: number;
+	min: number | null;
+	max: number | null;
+	mean: number | null;
+	p50: number | null;
+	p90: number | null;
+	p99: number | null;
+}
+
+/**
+ * Time-to-reconnect histogram
+ * counts[i] holds outages lasting at most bounds[i] milliseconds (and more
+ * than bounds[i - 1]); the last count holds outages longer than every bound.
+ */
+export interface ReconnectHistogram {
+	bounds: number[];
+	counts: number[];
+	/** Number of recovered outages */
+	count: number;
+	/** Total outage time in milliseconds */
+	sum: number;
+}
+
+/**
+ * Per-event message counters
+ */
+export interface EventStats {
+	sent: number;
+	received: number;
+}
+
+/**
+ * Connection statistics snapshot ('stats' event data, getStats())
+ */
+export interface ConnectionStats {
+	/** Start of the measurement (client creation or last resetStats()) */
+	since: number;
+	timestamp: number;
+	messagesSent: number;
+	messagesReceived: number;
+	/** Encoded frame sizes, attachments included */
+	bytesSent: number;
+	bytesReceived: number;
+	/** Counters by event name (namespaced events as 'namespace:event') */
+	events: Record<string, EventStats>;
+	latency: LatencyStats;
+	/** Time spent connected in milliseconds */
+	uptime: number;
+	/** Time spent reconnecting after unexpected disconnects in milliseconds */
+	downtime: number;
+	/** Established connections */
+	connects: number;
+	/** Lost connections by close code */
+	disconnects: Record<number, number>;
+	reconnects: ReconnectHistogram;
+}
+
+/**
+ * 'rooms_restored' event data
+ */
+export interface RoomsRestoredEventData {
+	restored: RoomInfo[];
+	failed: Array<{ room: string; namespace: string; error: string }>;
+}
+
+/**
+ * 'endpoint_changed' event data
+ */
+export interface EndpointChangedEventData {
+	url: string;
+	/** Previously active URL (null before the first connection) */
+	previous: string | null;
+	reason: EndpointChangeReason;
+}
+
+/**
+ * 'drain' event data
+ */
+export interface DrainEventData {
+	/** Bytes still buffered by the transport */
+	bufferedAmount: number;
+}
+
+/**
+ * 'queued' event data
+ */
+export interface QueuedEventData {
+	event: string;
+	data: MessageData;
+	/** Queue size after adding the message */
+	size: number;
+}
+
+/**
+ * 'dropped' event data
+ */
+export interface DroppedEventData {
+	event: string;
+	data: MessageData;
+	reason: QueueDropReason;
+	queuedAt: number;
+}
+
+/**
+ * 'validation_error' event data
+ */
+export interface ValidationErrorEventData {
+	event: string;
+	namespace: string;
+	data: MessageData;
+	issues: ValidationIssue[];
+}
+
+/**
+ * 'presence.join' and 'presence.update' event data
+ */
+export interface PresenceEventData {
+	room: string;
+	namespace: string;
+	member: PresenceMember;
+}
+
+/**
+ * 'presence.leave' event data
+ */
+export interface PresenceLeaveEventData extends PresenceEventData {
+	reason: PresenceLeaveReason;
+}
+
+/**
+ * Presence 'sync' event data (full member list received)
+ */
+export interface PresenceSyncEventData {
+	room: string;
+	namespace: string;
+	members: PresenceMember[];
+}
+
+/**
+ * Payloads of client-side system events
+ */
+export interface SystemEventMap {
+	connect: ConnectEventData;
+	disconnect: DisconnectEventData;
+	reconnect: ReconnectEventData;
+	reconnect_attempt: ReconnectAttemptEventData;
+	reconnect_failed: ReconnectFailedEventData;
+	reconnect_error: SockeonError;
+	error: SockeonError;
+	auth_error: AuthErrorEventData;
+	latency: LatencyEventData;
+	rooms_restored: RoomsRestoredEventData;
+	queued: QueuedEventData;
+	dropped: DroppedEventData;
+	validation_error: ValidationErrorEventData;
+	drain: DrainEventData;
+	endpoint_changed: EndpointChangedEventData;
+	stats: ConnectionStats;
+	"presence.join": PresenceEventData;
+	"presence.leave": PresenceLeaveEventData;
+	"presence.update": PresenceEventData;
+}
+
+/**
+ * Events a Sockeon client can listen to: server events plus system events
+ */
+export type ListenEvents<ServerEvents extends EventsMap> = Omit<
+	ServerEvents,
+	keyof SystemEventMap
+> &
+	SystemEventMap;
+
 /**
  * System event names
  * - 'error': Server-sent error messages
@@ -138,6 +1018,18 @@ export const SYSTEM_EVENTS = {
 	RECONNECT_ATTEMPT: "reconnect_attempt",
 	RECONNECT_FAILED: "reconnect_failed",
 	RECONNECT_ERROR: "reconnect_error",
+	AUTH_ERROR: "auth_error",
+	LATENCY: "latency",
+	ROOMS_RESTORED: "rooms_restored",
+	QUEUED: "queued",
+	DROPPED: "dropped",
+	VALIDATION_ERROR: "validation_error",
+	DRAIN: "drain",
+	ENDPOINT_CHANGED: "endpoint_changed",
+	STATS: "stats",
+	PRESENCE_JOIN: "presence.join",
+	PRESENCE_LEAVE: "presence.leave",
+	PRESENCE_UPDATE: "presence.update",
 	// Server-sent events
 	ERROR: "error",
 } as const;
@@ -154,29 +1046,99 @@ export const CLOSE_CODES = {
 	POLICY_VIOLATION: 1008,
 	MESSAGE_TOO_BIG: 1009,
 	INTERNAL_ERROR: 1011,
+	// Client-defined (private range 4000-4999)
+	HEARTBEAT_TIMEOUT: 4000,
+	AUTH_REJECTED: 4001,
 } as const;
 
+/**
+ * Default retry policy per close code (codes not listed are retried)
+ * Retrying is pointless when the server rejected the client itself.
+ */
+export const CLOSE_CODE_POLICY: Record<number, CloseCodePolicy> = {
+	[CLOSE_CODES.PROTOCOL_ERROR]: "stop",
+	[CLOSE_CODES.UNSUPPORTED_DATA]: "stop",
+	[CLOSE_CODES.POLICY_VIOLATION]: "stop",
+	[CLOSE_CODES.AUTH_REJECTED]: "stop",
+};
+
 /**
  * Default configuration values
  */
-export const DEFAULT_OPTIONS: Omit<NormalizedSockeonOptions, "url"> = {
+export const DEFAULT_OPTIONS: Omit<NormalizedSockeonOptions, "url" | "urls"> = {
 	namespace: "/",
+	failover: {
+		cooldown: 30000,
+		probeInterval: 60000,
+	},
 	reconnect: {
 		enabled: true,
 		maxAttempts: 5,
 		delay: 1000,
 		maxDelay: 30000,
 		factor: 1.5,
+		jitter: "none",
+		closeCodes: CLOSE_CODE_POLICY,
 	},
 	heartbeat: {
-		enabled: true,
+		enabled: false,
 		interval: 30000,
 		timeout: 5000,
+		pingEvent: "ping",
+		pongEvent: "pong",
+	},
+	queue: {
+		enabled: false,
+		maxSize: 100,
+		overflow: "drop-oldest",
+		ttl: 0,
+	},
+	environment: {
+		enabled: false,
+		pauseWhenOffline: true,
+		suspendHeartbeatWhenHidden: true,
+		verifyConnection: true,
+	},
+	delivery: {
+		enabled: false,
+		dedupWindow: 1000,
+		resumeParam: "lastSeenId",
+	},
+	stats: {
+		enabled: false,
+		interval: 0,
+		latencySamples: 100,
+		reconnectBuckets: [500, 1000, 2500, 5000, 10000, 30000, 60000],
+	},
+	flowControl: {
+		enabled: true,
+		highWaterMark: 1048576,
+		lowWaterMark: 262144,
+		checkInterval: 100,
 	},
+	emitLatest: {
+		interval: 100,
+		onDisconnect: "drop",
+	},
+	presence: {
+		timeout: 30000,
+	},
+	connectTimeout: 0,
+	rejoinRooms: true,
+	confirmRooms: true,
+	ackTimeout: 10000,
 	query: {},
 	debug: false,
 };
 
+/**
+ * Room membership state
+ * - 'pending': join_room sent, waiting for the server to confirm
+ * - 'joined': confirmed by the server (or sent, with confirmRooms: false)
+ * - 'failed': denied by the server or not confirmed within ackTimeout
+ */
+export type RoomState = "pending" | "joined" | "failed";
+
 /**
  * Room tracking
  */
@@ -185,34 +1147,72 @@ export interface RoomInfo {
 	name: string;
 	/** Namespace the room belongs to */
 	namespace: string;
-	/** Timestamp when joined */
+	/** Timestamp when joined (when requested, while pending) */
 	joinedAt: number;
+	/** Membership state */
+	state: RoomState;
+	/** Why the join failed */
+	error?: string;
 }
 
 /**
  * Namespace client interface
  */
-export interface NamespaceClient {
+export interface NamespaceClient<
+	ServerEvents extends EventsMap = DefaultServerEvents,
+	ClientEvents extends ClientEventsMap<ClientEvents> = DefaultClientEvents,
+> {
 	/** Namespace path */
 	readonly namespace: string;
 
 	/** Emit event to server */
-	emit(event: string, data?: Record<string, unknown> | unknown[]): void;
+	emit<E extends EventNames<ClientEvents>>(
+		event: E,
+		data?: ClientEvents[E],
+	): EmitResult;
+
+	/** Emit the latest value of a high-frequency event, coalesced per interval */
+	emitLatest<E extends EventNames<ClientEvents>>(
+		event: E,
+		data?: ClientEvents[E],
+		options?: EmitLatestOptions,
+	): void;
 
 	/** Listen to event */
-	on(event: string, handler: EventHandler): void;
+	on<E extends EventNames<ServerEvents> | "*">(
+		event: E,
+		handler: EventListener<ServerEvents, E>,
+	): void;
+
+	/** Listen to event once */
+	once<E extends EventNames<ServerEvents> | "*">(
+		event: E,
+		handler: EventListener<ServerEvents, E>,
+	): void;
 
 	/** Remove event listener */
-	off(event: string, handler?: EventHandler): void;
+	off<E extends EventNames<ServerEvents> | "*">(
+		event: E,
+		handler?: EventListener<ServerEvents, E>,
+	): void;
+
+	/** Join a room (resolves when the server confirms) */
+	joinRoom(room: string): Promise<RoomInfo>;
+
+	/** Leave a room (resolves when the server confirms) */
+	leaveRoom(room: string): Promise<void>;
+
+	/** Get rooms in a membership state (default: joined) */
+	getRooms(state?: RoomState): string[];
 
-	/** Join a room */
-	joinRoom(room: string): void;
+	/** Get details of current rooms */
+	getRoomInfo(): RoomInfo[];
 
-	/** Leave a room */
-	leaveRoom(room: string): void;
+	/** Get a room-scoped handle, joining the room if needed */
+	room(name: string): Room<ServerEvents, ClientEvents>;
 
-	/** Get current rooms */
-	getRooms(): string[];
+	/** Get the live presence list of a room */
+	presence(room: string): Presence;
 }
 
 /**
@@ -221,7 +1221,7 @@ export interface NamespaceClient {
 export interface ConnectionInfo {
 	/** Current connection state */
 	state: ConnectionState;
-	/** WebSocket URL */
+	/** Active endpoint URL */
 	url: string;
 	/** Current namespace */
 	namespace: string;
@@ -231,4 +1231,8 @@ export interface ConnectionInfo {
 	reconnectAttempts: number;
 	/** Is reconnecting */
 	isReconnecting: boolean;
+	/** Last measured heartbeat round-trip time in milliseconds (null if not measured yet) */
+	latency: number | null;
+	/** Highest incoming sequence number seen (null if none or delivery tracking is off) */
+	lastSeenId: number | null;
 }
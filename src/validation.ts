@@ -0,0 +1,225 @@
+/**
+ * Sockeon Schema Validation
+ *
+ * Per-event payload validation:
+ * - Structural schemas ({ text: "string", "tags?": ["string"] })
+ * - Type guards ((data) => data is T)
+ * - Standard Schema-style validators (schema["~standard"].validate or validate)
+ */
+
+import { isBinary } from "./binary";
+import type {
+	Schema,
+	SchemaResult,
+	SchemaValidator,
+	StructuralSchema,
+	ValidationIssue,
+} from "./types";
+
+/**
+ * Outcome of validating a payload
+ */
+export type ValidationResult =
+	| { valid: true; value: unknown }
+	| { valid: false; issues: ValidationIssue[] };
+
+/**
+ * Schemas by event name, for one direction
+ */
+export class SchemaRegistry {
+	private schemas = new Map<string, Schema>();
+
+	/**
+	 * Register schemas; returns a function that removes them again
+	 * (schemas replaced in the meantime are left alone)
+	 */
+	add(schemas: Record<string, Schema>): () => void {
+		const entries = Object.entries(schemas);
+		for (const [event, schema] of entries) {
+			this.schemas.set(event, schema);
+		}
+
+		return () => {
+			for (const [event, schema] of entries) {
+				if (this.schemas.get(event) === schema) {
+					this.schemas.delete(event);
+				}
+			}
+		};
+	}
+
+	/**
+	 * Validate an event payload (valid as-is when no schema is registered)
+	 */
+	validate(event: string, data: unknown): ValidationResult {
+		const schema = this.schemas.get(event);
+		if (schema === undefined) {
+			return { valid: true, value: data };
+		}
+
+		return validate(schema, data);
+	}
+}
+
+/**
+ * Validate a value against any supported schema
+ */
+export function validate(schema: Schema, value: unknown): ValidationResult {
+	try {
+		if (typeof schema === "function") {
+			return schema(value)
+				? { valid: true, value }
+				: {
+						valid: false,
+						issues: [{ path: [], message: "rejected by type guard" }],
+					};
+		}
+
+		const validator = getValidator(schema);
+		if (validator) {
+			return fromSchemaResult(validator.validate(value));
+		}
+	} catch (error) {
+		// A guard or validator that throws rejects the payload
+		const message = error instanceof Error ? error.message : String(error);
+		return { valid: false, issues: [{ path: [], message }] };
+	}
+
+	const issues: ValidationIssue[] = [];
+	checkStructure(schema as StructuralSchema, value, [], issues);
+	return issues.length === 0
+		? { valid: true, value }
+		: { valid: false, issues };
+}
+
+/**
+ * Format issues for an error message ("text: expected string, got number")
+ */
+export function formatIssues(issues: ValidationIssue[]): string {
+	return issues
+		.map(({ path, message }) =>
+			path.length > 0 ? `${path.join(".")}: ${message}` : message,
+		)
+		.join("; ");
+}
+
+/**
+ * Get the validator of a Standard Schema or validate()-style object
+ */
+function getValidator(schema: Schema): SchemaValidator | null {
+	if (typeof schema !== "object" || schema === null || Array.isArray(schema)) {
+		return null;
+	}
+
+	const standard = (schema as { "~standard"?: unknown })["~standard"];
+	if (
+		typeof standard === "object" &&
+		standard !== null &&
+		typeof (standard as SchemaValidator).validate === "function"
+	) {
+		return standard as SchemaValidator;
+	}
+
+	if (typeof (schema as SchemaValidator).validate === "function") {
+		return schema as SchemaValidator;
+	}
+
+	return null;
+}
+
+/**
+ * Convert a Standard Schema result
+ */
+function fromSchemaResult(
+	result: SchemaResult | Promise<SchemaResult>,
+): ValidationResult {
+	if (result instanceof Promise) {
+		return {
+			valid: false,
+			issues: [{ path: [], message: "asynchronous schemas are not supported" }],
+		};
+	}
+
+	if (!result.issues) {
+		return { valid: true, value: result.value };
+	}
+
+	return {
+		valid: false,
+		issues: result.issues.map((issue) => ({
+			path: (issue.path ?? []).map((segment) => {
+				const key = typeof segment === "object" ? segment.key : segment;
+				return typeof key === "number" ? key : String(key);
+			}),
+			message: issue.message,
+		})),
+	};
+}
+
+/**
+ * Check a value against a structural schema, collecting issues
+ */
+function checkStructure(
+	schema: StructuralSchema,
+	value: unknown,
+	path: (string | number)[],
+	issues: ValidationIssue[],
+): void {
+	if (typeof schema === "string") {
+		const optional = schema.endsWith("?");
+		const type = optional ? schema.slice(0, -1) : schema;
+
+		if (value === undefined) {
+			if (!optional) {
+				issues.push({ path, message: "is required" });
+			}
+			return;
+		}
+
+		if (type !== "any" && typeOf(value) !== type) {
+			issues.push({ path, message: `expected ${type}, got ${typeOf(value)}` });
+		}
+		return;
+	}
+
+	if (Array.isArray(schema)) {
+		if (!Array.isArray(value)) {
+			issues.push({ path, message: `expected array, got ${typeOf(value)}` });
+			return;
+		}
+
+		if (schema.length > 0) {
+			value.forEach((item, index) => {
+				checkStructure(schema[0], item, [...path, index], issues);
+			});
+		}
+		return;
+	}
+
+	if (typeOf(value) !== "object") {
+		issues.push({ path, message: `expected object, got ${typeOf(value)}` });
+		return;
+	}
+
+	const object = value as Record<string, unknown>;
+	for (const [key, propertySchema] of Object.entries(schema)) {
+		const optional = key.endsWith("?");
+		const name = optional ? key.slice(0, -1) : key;
+
+		if (optional && object[name] === undefined) {
+			continue;
+		}
+
+		checkStructure(propertySchema, object[name], [...path, name], issues);
+	}
+}
+
+/**
+ * Type name of a value, in structural schema terms
+ */
+function typeOf(value: unknown): string {
+	if (value === null) return "null";
+	if (Array.isArray(value)) return "array";
+	if (isBinary(value)) return "binary";
+	return typeof value;
+}